@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   FolderOpen, 
   Play, 
@@ -8,7 +8,6 @@ import {
   RefreshCw, 
   FileText, 
   AlertTriangle,
-  CheckCircle,
   XCircle,
   Clock,
   ShieldCheck,
@@ -20,97 +19,367 @@ import {
   Replace,
   Monitor,
   Smartphone,
-  AlertCircle
+  AlertCircle,
+  FolderTree,
+  History,
+  Bookmark,
+  ListFilter,
+  Upload,
+  Download,
+  Camera,
+  Copy,
+  ClipboardList,
+  Eye,
+  Radar
 } from 'lucide-react';
-import { FileItem, GlobalConfig, FilterState, SortType } from './types';
-import { formatBytes, getExtension, getBaseName } from './utils/fileUtils';
+import { FileItem, GlobalConfig, FilterState, SortType, ScanOptions, FolderMode, ConflictPolicy, BatchMode, BatchJournal, JournalEntry, Preset, RecentFolder, SearchMode, FileMetadata, MetadataColumn, TargetProfile, SanitizeMode, BatchReport, BatchReportEntry, ErrorCause, WatchRun, WatchSettings } from './types';
+import { DEFAULT_GLOBAL_CONFIG, DEFAULT_SCAN_OPTIONS, createDefaultFilters } from './constants';
+import { formatBytes, formatDuration, getExtension, getBaseName, downloadBlob } from './utils/fileUtils';
+import { joinPath, verifyPermission } from './utils/directoryUtils';
+import { HAS_FS_ACCESS, MAIN_SOURCE, LooseFile, createFileItem, droppedHandles, looseFileFields, looseFilesFromDrop, looseFilesFromInput, readFile } from './utils/fileSource';
+import { runZipJob, ZipTask } from './utils/zipExport';
+import { BatchCandidate, DestinationIndex, PlannedItem, indexDirectories, indexFiles, planBatch } from './utils/batchPlanner';
+import { runBatchInWorker, scanInWorker, transferRates, BatchJob } from './utils/fileWorkerClient';
+import { BatchTask, TransferProgress } from './workers/protocol';
+import { createJournalWriter } from './utils/journal';
+import { classifyError } from './utils/batchReport';
+import HistoryPanel from './components/HistoryPanel';
+import RuleEditor from './components/RuleEditor';
+import PresetManager from './components/PresetManager';
+import FolderPicker from './components/FolderPicker';
+import AdvancedFilters from './components/AdvancedFilters';
+import BulkActions from './components/BulkActions';
+import MappingReview from './components/MappingReview';
+import FileTable from './components/FileTable';
+import BatchReportDialog from './components/BatchReportDialog';
+import SuggestionPanel from './components/SuggestionPanel';
+import PreviewPane from './components/PreviewPane';
+import WatchPanel from './components/WatchPanel';
+import { toCsv } from './utils/csv';
+import { createFileFilter, validateFilters, METADATA_FIELDS } from './utils/filterEngine';
+import { addRecentFolder } from './utils/recentFolders';
+import { loadPresets } from './utils/presets';
+import { SETTLE_MS, WatchSnapshot, appendWatchLog, clearWatchLog, createWatchSnapshot, detectChanges, loadWatchLog, loadWatchSettings, observeDirectory, storeWatchSettings } from './utils/watchMode';
+import { createFinalNameCache, validateTemplate, usesMetadata, NameContext, TEMPLATE_TOKENS } from './utils/naming';
+import { extractMetadata, METADATA_COLUMNS } from './utils/metadata';
+import { validateFileName, NameIssue, TARGET_PROFILES } from './utils/filenameValidation';
+import { buildTargetDir, validateFolderPath, validateFolderPattern, FOLDER_TEMPLATE_EXAMPLES } from './utils/destinationPath';
+import { collectDestinationTargets, describeHash, hashContents, indexDestination, ContentIndex, HashProgress, HashTarget } from './utils/hashing';
 
-const App: React.FC = () => {
-  const hoy = new Date().toLocaleDateString('en-CA'); 
+const MODE_LABELS: Record<BatchMode, string> = {
+  copy: 'Copiar',
+  move: 'Mover',
+  rename: 'Renombrar en origen',
+  zip: 'Descargar ZIP'
+};
 
+// Conserva las ediciones de los ficheros que siguen ahí (misma ruta, nombre, tamaño y fecha)
+const createEditRestorer = (previous: FileItem[]) => {
+  const fileKey = (f: Pick<FileItem, 'relativePath' | 'originalName' | 'size' | 'lastModified'>) => `${f.relativePath}/${f.originalName}|${f.size}|${f.lastModified}`;
+  const kept = new Map(previous.map(f => [fileKey(f), f]));
+  return (item: FileItem) => {
+    const old = kept.get(fileKey(item));
+    if (old) {
+      const { id, customBaseName, prefix, suffix, extension, template, excluded, metadata, mappingFields } = old;
+      Object.assign(item, { id, customBaseName, prefix, suffix, extension, template, excluded, metadata, mappingFields });
+    }
+    return item;
+  };
+};
+
+const App: React.FC = () => {
   const [sourceHandle, setSourceHandle] = useState<FileSystemDirectoryHandle | null>(null);
   const [destHandle, setDestHandle] = useState<FileSystemDirectoryHandle | null>(null);
   const [files, setFiles] = useState<FileItem[]>([]);
-  const [globalConfig, setGlobalConfig] = useState<GlobalConfig>({
-    prefix: '',
-    suffix: '',
-    extension: '',
-    overwrite: false,
-    find: '',
-    replace: ''
-  });
-  const [filters, setFilters] = useState<FilterState>({
-    search: '',
-    dateStart: hoy, 
-    dateEnd: hoy,   
-    minSize: 0,
-    sort: 'name_asc',
-    limit: ''
-  });
+  // Sin File System Access el único modo posible es descargar un ZIP
+  const [globalConfig, setGlobalConfig] = useState<GlobalConfig>(HAS_FS_ACCESS ? DEFAULT_GLOBAL_CONFIG : { ...DEFAULT_GLOBAL_CONFIG, mode: 'zip' });
+  const [scanOptions, setScanOptions] = useState<ScanOptions>(DEFAULT_SCAN_OPTIONS);
+  const [filters, setFilters] = useState<FilterState>(createDefaultFilters);
+  const [destIndex, setDestIndex] = useState<DestinationIndex | null>(null);
   const [pastedNames, setPastedNames] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
   const [showPrivacy, setShowPrivacy] = useState(false);
   const [showCompatibility, setShowCompatibility] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
+  const [showMappingReview, setShowMappingReview] = useState(false);
+  const mappingFileInput = useRef<HTMLInputElement>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const lastToggledId = useRef<string | null>(null);
   const [pickerError, setPickerError] = useState<{title: string, msg: string} | null>(null);
+  const [metaColumns, setMetaColumns] = useState<MetadataColumn[]>([]);
+  const [showMetaMenu, setShowMetaMenu] = useState(false);
+  const [metaProgress, setMetaProgress] = useState<{done: number, total: number} | null>(null);
+  const metaReading = useRef(false);
+  const [destContents, setDestContents] = useState<ContentIndex | null>(null);
+  const [hashProgress, setHashProgress] = useState<HashProgress | null>(null);
+  const [showDuplicateMenu, setShowDuplicateMenu] = useState(false);
+  const hashAbort = useRef<AbortController | null>(null);
+  // Ficheros del destino con sus hashes, para no volver a recorrerlo en cada cálculo
+  const destTargets = useRef<HashTarget[] | null>(null);
+  const [scanCount, setScanCount] = useState<number | null>(null);
+  const [transfer, setTransfer] = useState<TransferProgress | null>(null);
+  const [waiveNameErrors, setWaiveNameErrors] = useState(false);
+  const [report, setReport] = useState<BatchReport | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  // Vigilancia: reescanea el origen y ejecuta un preset sobre lo nuevo o modificado
+  const [watchSettings, setWatchSettings] = useState<WatchSettings>(loadWatchSettings);
+  const [watching, setWatching] = useState(false);
+  const [watchLog, setWatchLog] = useState<WatchRun[]>(loadWatchLog);
+  const [watchCheck, setWatchCheck] = useState<{ at: number; waiting: number } | null>(null);
+  const [autoRun, setAutoRun] = useState<{ ids: Set<string>; preset: Preset; hashed?: boolean } | null>(null);
+  const watchSnapshot = useRef<WatchSnapshot>(new Map());
+  const watchBusy = useRef(false);
+  const batchJob = useRef<BatchJob | null>(null);
+  // Origen sin handles (<input webkitdirectory>): se guarda para reaplicar la profundidad
+  const [looseRoot, setLooseRoot] = useState<string | null>(null);
+  const looseSource = useRef<{ root: string; files: LooseFile[] } | null>(null);
+  const folderInput = useRef<HTMLInputElement>(null);
+  const sourceName = sourceHandle?.name ?? looseRoot ?? '';
+  // Carpetas arrastradas que siguen en la lista, para no añadir dos veces la misma
+  const droppedRoots = useRef<{ id: string; handle: FileSystemDirectoryHandle }[]>([]);
+
+  // Mover y renombrar escriben en el origen, no solo lo leen
+  const writesSource = globalConfig.mode === 'move' || globalConfig.mode === 'rename';
 
   const selectSource = async () => {
     setPickerError(null);
+    if (!HAS_FS_ACCESS) return folderInput.current?.click();
     try {
-      if (!('showDirectoryPicker' in window)) throw new Error("Incompatible");
-      const handle = await (window as any).showDirectoryPicker();
+      const handle = await (window as any).showDirectoryPicker({ mode: writesSource ? 'readwrite' : 'read' });
       setSourceHandle(handle);
+      addRecentFolder('source', handle).catch(() => {});
       await scanFiles(handle);
     } catch (err: any) {
       if (err.name === 'SecurityError' || err.message.includes('Cross origin')) {
         setPickerError({ title: "Seguridad", msg: "Abre la app en pestaña nueva para acceder a archivos." });
-      } else if (!('showDirectoryPicker' in window)) {
-        setShowCompatibility(true);
       }
     }
   };
 
   const selectDestination = async () => {
     try {
-      const handle = await (window as any).showDirectoryPicker();
+      const handle = await (window as any).showDirectoryPicker({ mode: 'readwrite' });
       setDestHandle(handle);
+      addRecentFolder('dest', handle).catch(() => {});
     } catch (e) {
       if (!('showDirectoryPicker' in window)) setShowCompatibility(true);
     }
   };
 
-  const scanFiles = async (handle: FileSystemDirectoryHandle) => {
+  const openRecent = async (role: RecentFolder['role'], handle: FileSystemDirectoryHandle) => {
+    setPickerError(null);
+    try {
+      if (!(await verifyPermission(handle, role === 'dest' || writesSource))) {
+        return setPickerError({ title: "Permiso denegado", msg: `No se ha concedido acceso a "${handle.name}".` });
+      }
+      addRecentFolder(role, handle).catch(() => {});
+      if (role === 'dest') return setDestHandle(handle);
+      setSourceHandle(handle);
+      await scanFiles(handle);
+    } catch (err: any) {
+      // La carpeta se borró o movió desde la última vez
+      setPickerError({ title: "Carpeta no disponible", msg: err.message });
+    }
+  };
+
+  const rescan = () => {
+    if (sourceHandle) scanFiles(sourceHandle, scanOptions, files);
+  };
+
+  const sortByPath = (list: FileItem[]) => list.sort((a, b) => a.relativePath.localeCompare(b.relativePath) || a.originalName.localeCompare(b.originalName));
+
+  // Ordena el resultado del recorrido y sustituye los ficheros del origen principal; los añadidos
+  // por arrastre se conservan. Los ficheros nuevos entran seleccionados
+  const commitScan = (newFiles: FileItem[], previous: FileItem[]) => {
+    sortByPath(newFiles);
+    setFiles(prev => [...newFiles, ...prev.filter(f => f.sourceId !== MAIN_SOURCE)]);
+    const previousIds = new Set(previous.map(f => f.id));
+    setSelectedIds(prev => new Set([
+      ...newFiles.filter(f => !previousIds.has(f.id) || prev.has(f.id)).map(f => f.id),
+      ...files.filter(f => f.sourceId !== MAIN_SOURCE && prev.has(f.id)).map(f => f.id)
+    ]));
+  };
+
+  // Añade al final de la lista sin tocar lo que ya había; lo añadido entra seleccionado
+  const appendFiles = (added: FileItem[]) => {
+    sortByPath(added);
+    setFiles(prev => [...prev, ...added]);
+    setSelectedIds(prev => new Set([...prev, ...added.map(f => f.id)]));
+  };
+
+  // Quita filas de la lista; los ficheros del disco no se tocan
+  const removeFromList = (ids: Set<string>) => {
+    const remaining = files.filter(f => !ids.has(f.id));
+    const sources = new Set(remaining.map(f => f.sourceId));
+    droppedRoots.current = droppedRoots.current.filter(r => sources.has(r.id));
+    setFiles(prev => prev.filter(f => !ids.has(f.id)));
+    setSelectedIds(prev => new Set([...prev].filter(id => !ids.has(id))));
+  };
+
+  const maxDepthOf = (options: ScanOptions) => !options.recursive ? 0 : (options.maxDepth === '' ? Infinity : options.maxDepth);
+
+  // Con `previous` se conservan las ediciones de los ficheros que siguen ahí
+  const scanFiles = async (handle: FileSystemDirectoryHandle, options: ScanOptions = scanOptions, previous: FileItem[] = []) => {
     const newFiles: FileItem[] = [];
+    previous = previous.filter(f => f.sourceId === MAIN_SOURCE);
+    const restore = createEditRestorer(previous);
+    looseSource.current = null;
+    setLooseRoot(null);
+    setScanCount(0);
     try {
-      for await (const entry of (handle as any).values()) {
-        if (entry.kind === 'file') {
-          const file = await (entry as FileSystemFileHandle).getFile();
-          newFiles.push({
-            id: crypto.randomUUID(),
-            handle: entry as FileSystemFileHandle,
-            originalName: file.name,
-            size: file.size,
-            lastModified: file.lastModified,
-            type: file.type,
-            customBaseName: getBaseName(file.name),
-            prefix: '', suffix: '', extension: getExtension(file.name),
-            status: 'pending'
-          });
+      await scanInWorker(handle, maxDepthOf(options), entries => {
+        for (const entry of entries) {
+          newFiles.push(restore(createFileItem({
+            sourceId: MAIN_SOURCE, sourceName: handle.name,
+            handle: entry.handle, parentHandle: entry.parent, relativePath: entry.relativePath,
+            originalName: entry.name, size: entry.size, lastModified: entry.lastModified, type: entry.type
+          })));
         }
+        setScanCount(newFiles.length);
+      });
+      // El worker entrega las entradas según terminan; se restablece el orden del recorrido
+      commitScan(newFiles, previous);
+      return newFiles;
+    } catch (e: any) {
+      setPickerError({ title: 'Error al escanear', msg: e.message });
+    } finally {
+      setScanCount(null);
+    }
+  };
+
+  // Modo sin File System Access: los ficheros ya están leídos, solo se filtra por profundidad
+  const loadLooseFiles = (root: string, loose: LooseFile[], options: ScanOptions = scanOptions, previous: FileItem[] = []) => {
+    looseSource.current = { root, files: loose };
+    setSourceHandle(null);
+    setLooseRoot(root);
+    const maxDepth = maxDepthOf(options);
+    previous = previous.filter(f => f.sourceId === MAIN_SOURCE);
+    const restore = createEditRestorer(previous);
+    commitScan(loose
+      .filter(l => (l.relativePath ? l.relativePath.split('/').length : 0) <= maxDepth)
+      .map(l => restore(createFileItem(looseFileFields(l, { id: MAIN_SOURCE, name: root })))), previous);
+  };
+
+  const reloadSource = (options: ScanOptions, previous: FileItem[]) => {
+    if (sourceHandle) scanFiles(sourceHandle, options, previous);
+    else if (looseSource.current) loadLooseFiles(looseSource.current.root, looseSource.current.files, options, previous);
+  };
+
+  const isKnownFolder = async (handle: FileSystemDirectoryHandle) => {
+    for (const known of [sourceHandle, ...droppedRoots.current.map(r => r.handle)]) {
+      if (known && await known.isSameEntry(handle)) return true;
+    }
+    return false;
+  };
+
+  // Lo arrastrado se añade a la lista: cada carpeta es un origen propio y los ficheros sueltos
+  // de un mismo arrastre comparten otro
+  const dropItems = async (e: React.DragEvent) => {
+    e.preventDefault();
+    if (isProcessing || scanCount !== null) return;
+    setPickerError(null);
+    try {
+      if (!HAS_FS_ACCESS) {
+        const dropped = await looseFilesFromDrop(e.dataTransfer.items, maxDepthOf(scanOptions));
+        const source = { id: crypto.randomUUID(), name: dropped.root };
+        return appendFiles(dropped.files.map(l => createFileItem(looseFileFields(l, source))));
       }
-      setFiles(newFiles);
-    } catch (e) {}
-  };
-
-  const filteredFiles = useMemo(() => {
-    let result = files.filter(f => {
-      const matchesSearch = f.originalName.toLowerCase().includes(filters.search.toLowerCase());
-      const fileDate = new Date(f.lastModified);
-      const start = filters.dateStart ? new Date(filters.dateStart + 'T00:00:00') : null;
-      const end = filters.dateEnd ? new Date(filters.dateEnd + 'T23:59:59') : null;
-      const matchesDate = (!start || fileDate >= start) && (!end || fileDate <= end);
-      return matchesSearch && matchesDate;
+      const handles = await droppedHandles(e.dataTransfer.items);
+      const added: FileItem[] = [];
+      const repeated: string[] = [];
+      const looseId = crypto.randomUUID();
+      setScanCount(0);
+      for (const handle of handles) {
+        if (handle.kind === 'file') {
+          const file = await (handle as FileSystemFileHandle).getFile();
+          added.push(createFileItem({
+            sourceId: looseId, sourceName: 'Sueltos', handle: handle as FileSystemFileHandle, relativePath: '',
+            originalName: file.name, size: file.size, lastModified: file.lastModified, type: file.type
+          }));
+          continue;
+        }
+        const dir = handle as FileSystemDirectoryHandle;
+        if (await isKnownFolder(dir)) {
+          repeated.push(dir.name);
+          continue;
+        }
+        const id = crypto.randomUUID();
+        droppedRoots.current.push({ id, handle: dir });
+        await scanInWorker(dir, maxDepthOf(scanOptions), entries => {
+          for (const entry of entries) {
+            added.push(createFileItem({
+              sourceId: id, sourceName: dir.name,
+              handle: entry.handle, parentHandle: entry.parent, relativePath: entry.relativePath,
+              originalName: entry.name, size: entry.size, lastModified: entry.lastModified, type: entry.type
+            }));
+          }
+          setScanCount(added.length);
+        });
+      }
+      appendFiles(added);
+      if (repeated.length) setPickerError({ title: 'Ya en la lista', msg: `No se han vuelto a añadir: ${repeated.join(', ')}` });
+    } catch (err: any) {
+      setPickerError({ title: 'Error al leer lo arrastrado', msg: err.message });
+    } finally {
+      setScanCount(null);
+    }
+  };
+
+  const applyPreset = (preset: Preset) => {
+    setGlobalConfig(HAS_FS_ACCESS ? preset.config : { ...preset.config, mode: 'zip' });
+    setFilters(preset.filters);
+    const scanChanged = JSON.stringify(preset.scanOptions) !== JSON.stringify(scanOptions);
+    setScanOptions(preset.scanOptions);
+    if (scanChanged) reloadSource(preset.scanOptions, files);
+  };
+
+  const updateScanOptions = (patch: Partial<ScanOptions>) => {
+    const next = { ...scanOptions, ...patch };
+    setScanOptions(next);
+    reloadSource(next, files);
+  };
+
+  const contentGroups = useMemo(() => {
+    const byHash = new Map<string, FileItem[]>();
+    files.forEach(f => {
+      if (!f.contentHash) return;
+      const group = byHash.get(f.contentHash);
+      if (group) group.push(f);
+      else byHash.set(f.contentHash, [f]);
     });
+    return byHash;
+  }, [files]);
+  // Grupos de contenido idéntico: número de grupo por hash (solo los repetidos o ya presentes en el destino)
+  const duplicateGroups = useMemo(() => {
+    const groups = new Map<string, number>();
+    for (const [hash, group] of contentGroups) {
+      if (group.length > 1 || destContents?.has(hash)) groups.set(hash, groups.size + 1);
+    }
+    return groups;
+  }, [contentGroups, destContents]);
+
+  const describeDuplicate = (f: FileItem) => {
+    if (!f.contentHash || !duplicateGroups.has(f.contentHash)) return null;
+    const inDest = destContents?.get(f.contentHash) ?? [];
+    return {
+      label: `=${duplicateGroups.get(f.contentHash)}${inDest.length ? ' D' : ''}`,
+      title: [
+        describeHash(f.contentHash),
+        ...contentGroups.get(f.contentHash)!.filter(o => o.id !== f.id).map(o => `Igual que ${o.relativePath ? o.relativePath + '/' : ''}${o.originalName}`),
+        ...inDest.map(path => `Ya en destino: ${path}`)
+      ].join('\n')
+    };
+  };
+  const duplicateIds = useMemo(() => new Set(files.filter(f => f.contentHash && duplicateGroups.has(f.contentHash)).map(f => f.id)), [files, duplicateGroups]);
+
+  // Filtra, ordena y limita como la lista visible
+  const applyFilters = (list: FileItem[], filters: FilterState) => {
+    let result = list.filter(createFileFilter(filters, duplicateIds));
 
     result.sort((a, b) => {
       switch (filters.sort) {
@@ -129,58 +398,540 @@ const App: React.FC = () => {
     }
 
     return result;
-  }, [files, filters]);
-
-  const applyPastedNames = () => {
-    const names = pastedNames.split('\n').filter(n => n.trim() !== '');
-    setFiles(prev => prev.map((f) => {
-      const idxInView = filteredFiles.findIndex(ff => ff.id === f.id);
-      if (idxInView !== -1 && names[idxInView]) return { ...f, customBaseName: names[idxInView].trim() };
-      return f;
-    }));
-  };
-
-  const getFinalName = (f: FileItem) => {
-    const prefix = f.prefix || globalConfig.prefix;
-    const suffix = f.suffix || globalConfig.suffix;
-    const ext = f.extension || globalConfig.extension || getExtension(f.originalName);
-    
-    let base = f.customBaseName;
-    if (globalConfig.find !== '') {
-      base = base.split(globalConfig.find).join(globalConfig.replace);
+  };
+
+  const filteredFiles = useMemo(() => applyFilters(files, filters), [files, filters, duplicateIds]);
+
+  const filterErrors = useMemo(() => validateFilters(filters), [filters]);
+
+  // Solo se procesan las filas visibles, seleccionadas y no excluidas
+  const selectedVisible = useMemo(() => filteredFiles.filter(f => selectedIds.has(f.id)), [filteredFiles, selectedIds]);
+  // Fila que muestra la vista previa; se navega por la lista visible
+  const focusedIndex = useMemo(() => focusedId ? filteredFiles.findIndex(f => f.id === focusedId) : -1, [filteredFiles, focusedId]);
+  const focusedFile = focusedIndex >= 0 ? filteredFiles[focusedIndex] : null;
+  const batchFiles = useMemo(() => selectedVisible.filter(f => !f.excluded), [selectedVisible]);
+
+  const toggleRow = (id: string, shiftKey: boolean) => {
+    const willSelect = !selectedIds.has(id);
+    const next = new Set(selectedIds);
+    const from = filteredFiles.findIndex(f => f.id === lastToggledId.current);
+    const to = filteredFiles.findIndex(f => f.id === id);
+    const range = shiftKey && from !== -1 ? filteredFiles.slice(Math.min(from, to), Math.max(from, to) + 1) : [filteredFiles[to]];
+    range.forEach(f => willSelect ? next.add(f.id) : next.delete(f.id));
+    lastToggledId.current = id;
+    setSelectedIds(next);
+  };
+
+  const selectAllVisible = (select: boolean) => {
+    const next = new Set(selectedIds);
+    filteredFiles.forEach(f => select ? next.add(f.id) : next.delete(f.id));
+    setSelectedIds(next);
+  };
+
+  const invertSelection = () => {
+    const next = new Set(selectedIds);
+    filteredFiles.forEach(f => next.has(f.id) ? next.delete(f.id) : next.add(f.id));
+    setSelectedIds(next);
+  };
+
+  const updateFiles = (ids: string[], patch: Partial<FileItem>) => {
+    const set = new Set(ids);
+    setFiles(prev => prev.map(f => set.has(f.id) ? { ...f, ...patch } : f));
+  };
+
+  const updateSelected = (update: (f: FileItem) => Partial<FileItem>) => {
+    const ids = new Set(selectedVisible.map(f => f.id));
+    setFiles(prev => prev.map(f => ids.has(f.id) ? { ...f, ...update(f) } : f));
+  };
+  const advancedFilterCount = filters.extensions.length + filters.types.length + filters.statuses.length
+    + filters.groups.length + (filters.minSize > 0 ? 1 : 0) + (filters.maxSize !== '' ? 1 : 0) + (filters.hideHidden ? 1 : 0) + (filters.duplicatesOnly ? 1 : 0);
+
+  const loadMappingFile = async (file: File) => {
+    setPastedNames(await file.text());
+    setShowMappingReview(true);
+  };
+
+  const applyMapping = (updates: Map<string, Partial<FileItem>>) => {
+    setFiles(prev => prev.map(f => updates.has(f.id) ? { ...f, ...updates.get(f.id) } : f));
+    setShowMappingReview(false);
+  };
+
+  // Lee los metadatos de los ficheros que aún no los tienen, actualizando la tabla por tandas
+  const readMetadata = async () => {
+    const pending = files.filter(f => !f.metadata);
+    if (pending.length === 0 || metaReading.current) return;
+    metaReading.current = true;
+    setMetaProgress({ done: 0, total: pending.length });
+    const found = new Map<string, FileMetadata>();
+    const flush = (done: number) => {
+      const batch = new Map(found);
+      found.clear();
+      setFiles(prev => prev.map(f => batch.has(f.id) ? { ...f, metadata: batch.get(f.id) } : f));
+      setMetaProgress({ done, total: pending.length });
+    };
+    for (let i = 0; i < pending.length; i++) {
+      try {
+        found.set(pending[i].id, await extractMetadata(await readFile(pending[i])));
+      } catch (e) {
+        found.set(pending[i].id, {});
+      }
+      if (found.size >= 25) flush(i + 1);
+    }
+    flush(pending.length);
+    setMetaProgress(null);
+    metaReading.current = false;
+  };
+
+  // Columnas, filtros o plantillas con metadatos los leen automáticamente
+  const needsMetadata = metaColumns.length > 0
+    || filters.groups.some(g => g.conditions.some(c => METADATA_FIELDS.includes(c.field)))
+    || usesMetadata(globalConfig.template) || files.some(f => usesMetadata(f.template))
+    || (globalConfig.folderMode === 'template' && usesMetadata(globalConfig.folderTemplate));
+  const pendingMetadata = files.filter(f => !f.metadata).length;
+  useEffect(() => {
+    if (needsMetadata && pendingMetadata > 0) readMetadata();
+  }, [needsMetadata, pendingMetadata]);
+
+  // Hashes del origen y, si hay, del destino; solo se leen los ficheros nuevos y los que pueden repetirse con ellos
+  const hashAll = async (useDest = !!destHandle && globalConfig.mode !== 'rename') => {
+    if (hashAbort.current) return;
+    const controller = new AbortController();
+    hashAbort.current = controller;
+    setHashProgress({ phase: 'partial', done: 0, total: 0 });
+    const snapshot = files;
+    try {
+      const targets: HashTarget[] = snapshot.map(f => ({ key: f.id, size: f.size, hash: f.contentHash, getFile: () => readFile(f) }));
+      const dest = useDest && destHandle ? destTargets.current ?? await collectDestinationTargets(destHandle) : [];
+      const hashes = await hashContents([...targets, ...dest], setHashProgress, controller.signal);
+      const ids = new Set(snapshot.map(f => f.id));
+      setFiles(prev => prev.map(f => ids.has(f.id) && (f.contentHash === undefined || hashes.has(f.id)) ? { ...f, contentHash: hashes.get(f.id) ?? '' } : f));
+      if (useDest) {
+        destTargets.current = dest.map(t => ({ ...t, hash: hashes.get(t.key) ?? t.hash ?? '' }));
+        setDestContents(indexDestination(destTargets.current));
+      }
+    } catch (e) {
+      // Cancelado: se conservan los hashes anteriores
+    } finally {
+      hashAbort.current = null;
+      setHashProgress(null);
+    }
+  };
+
+  const contentSkipEnabled = globalConfig.skipExistingContent && globalConfig.mode !== 'rename' && globalConfig.mode !== 'zip' && !!destHandle;
+  const pendingHashes = files.filter(f => f.contentHash === undefined).length;
+  // Al terminar un cálculo se vuelve a comprobar: la lista ha podido cambiar mientras tanto
+  const hashing = hashProgress !== null;
+  useEffect(() => {
+    if (hashing) return;
+    if ((contentSkipEnabled && (!destContents || pendingHashes > 0)) || (filters.duplicatesOnly && pendingHashes > 0)) hashAll();
+  }, [contentSkipEnabled, destContents, pendingHashes, filters.duplicatesOnly, hashing]);
+
+  // El destino cambia: sus hashes dejan de valer
+  useEffect(() => {
+    hashAbort.current?.abort();
+    destTargets.current = null;
+    setDestContents(null);
+  }, [destHandle]);
+
+  const exportTableCsv = () => {
+    const rows = filteredFiles.map(f => [
+      f.relativePath, f.originalName, f.prefix, f.customBaseName, f.suffix, f.extension, getFinalName(f)
+    ]);
+    downloadBlob(toCsv([['path', 'original', 'prefix', 'base', 'suffix', 'ext', 'final'], ...rows]), 'tabla-ga-archivos.csv', 'text/csv;charset=utf-8');
+  };
+
+  // El contador sigue el orden de la lista visible (contando solo las filas del lote)
+  const counterIndex = useMemo(() => {
+    const index = new Map(filteredFiles.map((f, i) => [f.id, i]));
+    batchFiles.forEach((f, i) => index.set(f.id, i));
+    return index;
+  }, [filteredFiles, batchFiles]);
+
+  const nameCache = useMemo(createFinalNameCache, []);
+  const nameContext = (f: FileItem) => ({
+    index: counterIndex.get(f.id) ?? 0,
+    rootName: sourceName
+  });
+  const getFinalName = (f: FileItem) => nameCache(f, globalConfig, nameContext(f));
+
+  const templateErrors = useMemo(() => validateTemplate(globalConfig.template), [globalConfig.template]);
+  const folderTemplateErrors = useMemo(() => [
+    ...validateTemplate(globalConfig.folderTemplate),
+    ...(globalConfig.folderPattern ? [validateFolderPattern(globalConfig.folderPattern)].filter((e): e is string => !!e) : [])
+  ], [globalConfig.folderTemplate, globalConfig.folderPattern]);
+
+  const targetDirOf = (f: FileItem, config: GlobalConfig, ctx: NameContext) => {
+    if (config.mode === 'rename' || config.folderMode === 'mirror') return f.relativePath;
+    return config.folderMode === 'template' ? buildTargetDir(f, config, ctx) : '';
+  };
+  const getTargetDir = (f: FileItem) => targetDirOf(f, globalConfig, nameContext(f));
+
+  const targetDirsKey = useMemo(() => [...new Set(batchFiles.map(getTargetDir))].sort().join('\n'), [batchFiles, globalConfig, counterIndex]);
+
+  const refreshDestIndex = async () => {
+    if (!destHandle) return setDestIndex(null);
+    try {
+      setDestIndex(await indexDirectories(destHandle, targetDirsKey.split('\n')));
+    } catch (e) {
+      setDestIndex(null);
+    }
+  };
+
+  useEffect(() => {
+    refreshDestIndex();
+  }, [destHandle, targetDirsKey]);
+
+  const candidatesOf = (list: FileItem[], config: GlobalConfig, targetName: (f: FileItem) => string, targetDir: (f: FileItem) => string): BatchCandidate[] => {
+    const inPlace = config.mode === 'rename';
+    const skipContent = config.skipExistingContent && config.mode !== 'rename' && config.mode !== 'zip' && !!destHandle;
+    return list.map(f => {
+      const existing = skipContent && f.contentHash ? destContents?.get(f.contentHash) : undefined;
+      // Un fichero suelto arrastrado no tiene carpeta: no se puede renombrar ni borrar el original
+      const noFolder = !f.parentHandle && (config.mode === 'rename' || config.mode === 'move');
+      return {
+        id: f.id, targetDir: targetDir(f), targetName: targetName(f), size: f.size, lastModified: f.lastModified,
+        ownName: inPlace ? f.originalName : undefined,
+        scope: inPlace ? f.sourceId : undefined,
+        skipReason: noFolder ? 'Fichero suelto sin carpeta de origen: solo se puede copiar'
+          : existing ? `El contenido ya existe en el destino: ${existing[0]}` : undefined
+      };
+    });
+  };
+
+  const lastPlan = useRef<Map<string, PlannedItem>>();
+  const batchPlan = useMemo(() => {
+    return lastPlan.current = planBatch(
+      candidatesOf(batchFiles, globalConfig, getFinalName, getTargetDir),
+      globalConfig.mode === 'rename' ? indexFiles(files) : globalConfig.mode === 'zip' ? null : destIndex,
+      globalConfig.conflictPolicy,
+      lastPlan.current
+    );
+  }, [files, batchFiles, destIndex, globalConfig, contentSkipEnabled, destContents]);
+
+  // Plan con otra configuración (la del preset de la vigilancia): el contador solo cuenta estos
+  // ficheros y el destino se lee en sus propias carpetas
+  const planWith = async (list: FileItem[], config: GlobalConfig) => {
+    const order = new Map(list.map((f, i) => [f.id, i]));
+    const ctx = (f: FileItem): NameContext => ({ index: order.get(f.id) ?? 0, rootName: sourceName });
+    const names = createFinalNameCache();
+    const targetDir = (f: FileItem) => targetDirOf(f, config, ctx(f));
+    const index = config.mode === 'rename' ? indexFiles(files)
+      : config.mode === 'zip' || !destHandle ? null : await indexDirectories(destHandle, list.map(targetDir));
+    return planBatch(candidatesOf(list, config, f => names(f, config, ctx(f)), targetDir), index, config.conflictPolicy);
+  };
+
+  // Problemas de los nombres que se van a escribir (los omitidos no cuentan)
+  // Cada nombre se valida una sola vez por sistema destino; el mismo resultado vuelve como el mismo array
+  const validationCache = useRef(new Map<string, NameIssue[]>());
+  const validateTarget = (name: string, dir: string | null, size: number, profile = globalConfig.targetProfile) => {
+    const cache = validationCache.current;
+    const key = [profile, size, dir === null ? '' : `/${dir}`, name].join('\0');
+    let found = cache.get(key);
+    if (!found) {
+      if (cache.size > 20000) cache.clear();
+      found = [
+        ...(dir !== null ? validateFolderPath(dir, profile) : []),
+        ...validateFileName(name, profile, size)
+      ];
+      cache.set(key, found);
     }
-    
-    const dot = (ext && !ext.startsWith('.')) ? '.' : '';
-    return `${prefix}${base}${suffix}${dot}${ext}`;
+    return found;
   };
 
-  const executeBatch = async () => {
-    if (!destHandle) return;
+  const nameIssues = useMemo(() => {
+    const issues = new Map<string, NameIssue[]>();
+    batchFiles.forEach(f => {
+      const planned = batchPlan.get(f.id);
+      if (!planned || planned.action === 'skip') return;
+      const found = validateTarget(planned.targetName, globalConfig.folderMode === 'template' ? planned.targetDir : null, f.size);
+      if (found.length) issues.set(f.id, found);
+    });
+    return issues;
+  }, [batchFiles, batchPlan, globalConfig.targetProfile, globalConfig.folderMode]);
+
+  // Reparto del lote por carpeta de destino, para el resumen de la confirmación
+  const folderSummary = useMemo(() => {
+    const counts = new Map<string, number>();
+    batchPlan.forEach(p => {
+      if (p.action !== 'skip') counts.set(p.targetDir, (counts.get(p.targetDir) ?? 0) + 1);
+    });
+    return [...counts].sort((a, b) => a[0].localeCompare(b[0]));
+  }, [batchPlan]);
+  const nameErrorCount = useMemo(() => [...nameIssues.values()].filter(list => list.some(i => i.severity === 'error')).length, [nameIssues]);
+  const nameWarningCount = nameIssues.size - nameErrorCount;
+
+  // Las filas fuera del lote también se marcan, pero solo se validan al pintarse
+  const getNameIssues = (f: FileItem) => nameIssues.get(f.id) ?? (batchPlan.has(f.id) ? undefined : validateTarget(getFinalName(f), null, f.size));
+
+  const canExecute = batchFiles.length > 0 && (!!destHandle || globalConfig.mode === 'rename' || globalConfig.mode === 'zip') && !isProcessing && !hashProgress
+    && (nameErrorCount === 0 || waiveNameErrors);
+
+  const conflictCount = useMemo(() => [...batchPlan.values()].filter(p => p.conflicts.length > 0).length, [batchPlan]);
+
+  // Carpetas en las que escribe el lote: el origen de lo que se mueve o renombra y el destino
+  const writeTargets = (mode: BatchMode, runFiles: FileItem[], plan: Map<string, PlannedItem>) => {
+    const handles = new Set<FileSystemDirectoryHandle>();
+    if (mode === 'move' || mode === 'rename') {
+      runFiles.forEach(f => {
+        if (plan.get(f.id)?.action === 'skip') return;
+        const root = f.sourceId === MAIN_SOURCE ? sourceHandle : droppedRoots.current.find(r => r.id === f.sourceId)?.handle;
+        const dir = root ?? f.parentHandle;
+        if (dir) handles.add(dir);
+      });
+    }
+    if ((mode === 'copy' || mode === 'move') && destHandle) handles.add(destHandle);
+    return [...handles];
+  };
+
+  // Con `retryIds` solo se vuelven a procesar los fallidos del informe. Con `prepared` se ejecuta otro
+  // lote ya planificado en vez del de la pantalla (la vigilancia) y el informe se guarda sin abrirlo
+  const executeBatch = async (retryIds?: Set<string>, prepared?: { mode: BatchMode; files: FileItem[]; plan: Map<string, PlannedItem> }) => {
+    const mode = prepared?.mode ?? globalConfig.mode;
+    const plan = prepared?.plan ?? batchPlan;
+    if (!destHandle && mode !== 'rename' && mode !== 'zip') return;
+    const runFiles = prepared?.files ?? (retryIds ? batchFiles.filter(f => retryIds.has(f.id)) : batchFiles);
+    // El worker no puede mostrar el aviso de permiso: se pide aquí, antes de empezar
+    for (const handle of writeTargets(mode, runFiles, plan)) {
+      const granted = await verifyPermission(handle, true).catch(() => false);
+      if (!granted) {
+        setShowConfirm(false);
+        setPickerError({ title: "Permiso denegado", msg: `No se puede escribir en "${handle.name}"; el lote no se ha iniciado.` });
+        return;
+      }
+    }
     setIsProcessing(true);
     setShowConfirm(false);
-    const updatedFiles = [...files];
-    for (const f of filteredFiles) {
-      const idx = updatedFiles.findIndex(uf => uf.id === f.id);
-      updatedFiles[idx] = { ...updatedFiles[idx], status: 'processing' };
-      setFiles([...updatedFiles]);
-      try {
-        const finalName = getFinalName(f);
-        const sourceFile = await f.handle.getFile();
-        const newFileHandle = await destHandle.getFileHandle(finalName, { create: true });
-        const writable = await (newFileHandle as any).createWritable();
-        await writable.write(sourceFile);
-        await writable.close();
-        updatedFiles[idx] = { ...updatedFiles[idx], status: 'success' };
-      } catch (err: any) {
-        updatedFiles[idx] = { ...updatedFiles[idx], status: 'error', errorMessage: err.message };
+    setShowReport(false);
+    // El estado de la ejecución anterior no debe mezclarse con el de esta
+    const runIds = new Set(runFiles.map(f => f.id));
+    setFiles(prev => prev.map(f => f.status !== 'pending' && (retryIds || prepared ? runIds.has(f.id) : true) ? { ...f, status: 'pending', errorMessage: undefined } : f));
+    const journal: BatchJournal = {
+      id: crypto.randomUUID(),
+      startedAt: Date.now(),
+      mode,
+      sourceName: [...new Set(runFiles.map(f => f.sourceName))].join(', '),
+      destName: mode === 'rename' || mode === 'zip' ? undefined : destHandle?.name,
+      entries: []
+    };
+    const record = (f: FileItem, entry: Pick<JournalEntry, 'outcome' | 'errorMessage' | 'overwrote' | 'targetDir'>) => {
+      const planned = plan.get(f.id)!;
+      journal.entries.push({
+        sourceName: f.originalName, sourcePath: f.relativePath,
+        targetName: planned.targetName, targetPath: planned.targetDir,
+        mode, timestamp: Date.now(), sourceDir: f.parentHandle, ...entry
+      });
+    };
+    const reportEntries: BatchReportEntry[] = [];
+    const report = (f: FileItem, outcome: BatchReportEntry['outcome'], message?: string, cause?: ErrorCause) => {
+      const planned = plan.get(f.id)!;
+      reportEntries.push({
+        id: f.id, sourcePath: f.relativePath, sourceName: f.originalName,
+        targetPath: planned.targetDir, targetName: planned.targetName, size: f.size, outcome, message, cause
+      });
+    };
+    let cancelled = false;
+    // Ficheros escritos en el destino, para añadirlos a su índice de contenido sin recorrerlo otra vez
+    const written: HashTarget[] = [];
+
+    // Las actualizaciones llegan agrupadas desde el worker: una sola pasada por tanda
+    const applyUpdates = (updates: Map<string, Partial<FileItem>>) => {
+      if (updates.size) setFiles(prev => prev.map(f => updates.has(f.id) ? { ...f, ...updates.get(f.id) } : f));
+    };
+    const byId = new Map<string, FileItem>(runFiles.map(f => [f.id, f]));
+    const tasks: BatchTask[] = [];
+    const zipTasks: ZipTask[] = [];
+    const skipped = new Map<string, Partial<FileItem>>();
+    for (const f of runFiles) {
+      const planned = plan.get(f.id)!;
+      if (planned.action === 'skip') {
+        skipped.set(f.id, { status: 'skipped', errorMessage: planned.reason });
+        record(f, { outcome: 'skipped', errorMessage: planned.reason });
+        report(f, 'skipped', planned.reason);
+      } else {
+        if (mode === 'zip') zipTasks.push({ id: f.id, path: joinPath(planned.targetDir, planned.targetName), size: f.size, lastModified: f.lastModified, getFile: () => readFile(f) });
+        else tasks.push({ id: f.id, handle: f.handle!, parentHandle: f.parentHandle, originalName: f.originalName, size: f.size, planned });
       }
-      setFiles([...updatedFiles]);
     }
+    applyUpdates(skipped);
+    // El diario existe antes de tocar ningún fichero y se va guardando según llegan los resultados;
+    // el ZIP no cambia nada en disco y no lo necesita
+    const journalWriter = createJournalWriter(journal);
+    const saveProgress = () => mode !== 'zip' ? journalWriter.save() : Promise.resolve();
+    await saveProgress();
+
+    const handlers = {
+      onStarted: ids => applyUpdates(new Map(ids.map(id => [id, { status: 'processing' }]))),
+      onProgress: setTransfer,
+      onResults: results => {
+        const updates = new Map<string, Partial<FileItem>>();
+        for (const { id, outcome, result, error, errorName } of results) {
+          const f = byId.get(id)!;
+          const planned = plan.get(id)!;
+          if (outcome === 'cancelled') {
+            cancelled = true;
+            updates.set(id, { status: 'skipped', errorMessage: 'Cancelado' });
+            record(f, { outcome: 'skipped', errorMessage: 'Cancelado' });
+            report(f, 'skipped', 'Cancelado');
+          } else if (outcome === 'error') {
+            updates.set(id, { status: 'error', errorMessage: error });
+            record(f, { outcome: 'error', errorMessage: error });
+            report(f, 'error', error, classifyError(errorName, error));
+          } else {
+            report(f, 'success');
+            updates.set(id, mode === 'rename' && result
+              ? {
+                  status: 'success', handle: result.handle, originalName: planned.targetName,
+                  customBaseName: getBaseName(planned.targetName), prefix: '', suffix: '', extension: getExtension(planned.targetName), template: ''
+                }
+              : { status: 'success' });
+            // Si el resultado es el propio fichero no hay nada que deshacer; el ZIP tampoco deja nada
+            if (result?.changed) record(f, { outcome: 'success', overwrote: planned.action === 'overwrite', targetDir: result.targetDir });
+            else if (result) record(f, { outcome: 'skipped', errorMessage: 'Sin cambios' });
+            // Un hash '' solo decía que no había pareja, y la copia ahora lo es: se calcula de nuevo
+            if (result?.changed && mode !== 'rename') {
+              written.push({ key: `dest:${joinPath(planned.targetDir, planned.targetName)}`, size: f.size, hash: f.contentHash || undefined, getFile: () => result.handle.getFile() });
+            }
+          }
+        }
+        applyUpdates(updates);
+        saveProgress();
+      }
+    };
+    const job = mode === 'zip'
+      ? runZipJob(zipTasks, handlers, zip => downloadBlob(zip, `${sourceName || 'ga-archivos'}.zip`, 'application/zip'))
+      : runBatchInWorker(tasks, mode, destHandle, handlers);
+    batchJob.current = job;
+    let activeMs = 0;
+    try {
+      activeMs = (await job.done).elapsedMs;
+    } catch (err: any) {
+      activeMs = Date.now() - journal.startedAt;
+      setPickerError({ title: 'Error en el lote', msg: err.message });
+    }
+    batchJob.current = null;
+    setTransfer(null);
+    journal.finishedAt = Date.now();
+    const finished: BatchReport = { mode, startedAt: journal.startedAt, finishedAt: journal.finishedAt, activeMs, cancelled, entries: reportEntries };
+    setReport(finished);
+    if (!prepared) setShowReport(true);
+    await saveProgress();
     setIsProcessing(false);
+    refreshDestIndex();
+    if (written.length && destTargets.current) {
+      const replaced = new Set(written.map(t => t.key));
+      destTargets.current = [...destTargets.current.filter(t => !replaced.has(t.key)), ...written];
+      setDestContents(indexDestination(destTargets.current));
+    }
+    return finished;
   };
 
+  useEffect(() => storeWatchSettings(watchSettings), [watchSettings]);
+
+  const logWatchRun = (run: WatchRun) => setWatchLog(prev => appendWatchLog(prev, run));
+
+  const stopWatching = (note?: string, presetName = '') => {
+    setWatching(false);
+    setAutoRun(null);
+    if (note) logWatchRun({ at: Date.now(), presetName, detected: 0, processed: 0, success: 0, errors: 0, skipped: 0, note });
+  };
+
+  // Lo que ya está en la lista al empezar no cuenta como nuevo
+  const toggleWatch = () => {
+    if (watching) return stopWatching();
+    watchSnapshot.current = createWatchSnapshot(files.filter(f => f.sourceId === MAIN_SOURCE));
+    setWatchCheck(null);
+    setWatching(true);
+  };
+
+  // Un reescaneo: lo nuevo o modificado queda pendiente de ejecutarse con el preset elegido
+  const watchTick = async () => {
+    if (!sourceHandle || watchBusy.current || isProcessing || scanCount !== null || autoRun) return;
+    const preset = loadPresets().find(p => p.id === watchSettings.presetId);
+    if (!preset) return stopWatching('El preset elegido ya no existe; vigilancia detenida');
+    watchBusy.current = true;
+    try {
+      const scanned = await scanFiles(sourceHandle, preset.scanOptions, files);
+      if (!scanned) return;
+      const { snapshot, ready, waiting } = detectChanges(watchSnapshot.current, scanned, Date.now());
+      watchSnapshot.current = snapshot;
+      setWatchCheck({ at: Date.now(), waiting });
+      if (!ready.length) return;
+      setAutoRun({ ids: new Set(ready.map(f => f.id)), preset });
+    } finally {
+      watchBusy.current = false;
+    }
+  };
+  // El temporizador y el observador llaman siempre a la versión con el estado actual
+  const latestWatchTick = useRef(watchTick);
+  latestWatchTick.current = watchTick;
+
+  useEffect(() => {
+    if (!watching || !sourceHandle) return;
+    const tick = () => { latestWatchTick.current(); };
+    const timer = setInterval(tick, watchSettings.intervalSec * 1000);
+    // Los avisos llegan en ráfagas mientras se escribe un fichero: se espera a que paren
+    let pending: ReturnType<typeof setTimeout> | undefined;
+    const stopObserving = watchSettings.useObserver ? observeDirectory(sourceHandle, () => {
+      clearTimeout(pending);
+      pending = setTimeout(tick, SETTLE_MS);
+    }) : null;
+    return () => {
+      clearInterval(timer);
+      clearTimeout(pending);
+      stopObserving?.();
+    };
+  }, [watching, sourceHandle, watchSettings.intervalSec, watchSettings.useObserver]);
+
+  // Lo visto pertenece a la carpeta vigilada: con otro origen se detiene
+  useEffect(() => setWatching(false), [sourceHandle]);
+
+  // Lo detectado se procesa solo con el preset: la configuración y los filtros de la pantalla no cambian
+  const runWatchJob = async (preset: Preset, detected: FileItem[], detectedCount: number) => {
+    const { config } = preset;
+    const runFiles = applyFilters(detected, preset.filters);
+    const run: WatchRun = { at: Date.now(), presetName: preset.name, detected: detectedCount, processed: runFiles.length, success: 0, errors: 0, skipped: 0 };
+    if (runFiles.length === 0) return logWatchRun({ ...run, note: 'Ninguno pasa los filtros del preset' });
+    if (!destHandle && config.mode !== 'rename' && config.mode !== 'zip') return stopWatching('Falta la carpeta de destino; vigilancia detenida', preset.name);
+    const plan = await planWith(runFiles, config);
+    const invalid = runFiles.some(f => {
+      const planned = plan.get(f.id)!;
+      return planned.action !== 'skip' && validateTarget(planned.targetName, config.folderMode === 'template' ? planned.targetDir : null, f.size, config.targetProfile)
+        .some(i => i.severity === 'error');
+    });
+    if (invalid) return stopWatching('Hay nombres no válidos para el sistema destino; vigilancia detenida', preset.name);
+    const report = await executeBatch(undefined, { mode: config.mode, files: runFiles, plan });
+    if (!report) return stopWatching('Sin permiso de escritura; vigilancia detenida', preset.name);
+    // Los ficheros recién renombrados no son nuevos para la siguiente pasada
+    if (report.mode === 'rename') {
+      report.entries.forEach(e => {
+        if (e.outcome === 'success') watchSnapshot.current.set(joinPath(e.targetPath, e.targetName), null);
+      });
+    }
+    const count = (outcome: BatchReportEntry['outcome']) => report.entries.filter(e => e.outcome === outcome).length;
+    logWatchRun({ ...run, success: count('success'), errors: count('error'), skipped: count('skipped'), note: report.cancelled ? 'Cancelado' : undefined });
+  };
+
+  // Si el preset compara contenidos, antes de ejecutar se calculan los hashes de lo detectado
+  useEffect(() => {
+    if (!autoRun || isProcessing || hashProgress) return;
+    const { ids, preset } = autoRun;
+    const detected = files.filter(f => ids.has(f.id) && !f.excluded);
+    const useDest = !!destHandle && preset.config.mode !== 'rename' && preset.config.mode !== 'zip';
+    const skipContent = preset.config.skipExistingContent && useDest;
+    const missing = (skipContent || preset.filters.duplicatesOnly) && (detected.some(f => f.contentHash === undefined) || (skipContent && !destContents));
+    if (missing && !autoRun.hashed) {
+      setAutoRun({ ...autoRun, hashed: true });
+      hashAll(useDest);
+      return;
+    }
+    setAutoRun(null);
+    if (missing) return stopWatching('No se pudo comparar el contenido; vigilancia detenida', preset.name);
+    watchBusy.current = true;
+    runWatchJob(preset, detected, ids.size).finally(() => { watchBusy.current = false; });
+  }, [autoRun, isProcessing, hashProgress]);
+
   return (
-    <div className="flex flex-col h-screen max-w-full mx-auto p-4 lg:p-4 space-y-3 font-sans bg-slate-50">
+    <div onDragOver={e => e.preventDefault()} onDrop={dropItems} className="flex flex-col h-screen max-w-full mx-auto p-4 lg:p-4 space-y-3 font-sans bg-slate-50">
       <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 bg-white px-5 py-2 rounded-xl shadow-sm border border-slate-200">
         <div className="flex items-center gap-3">
           <div className="bg-indigo-600 p-1.5 rounded-lg text-white"><FolderOpen className="w-5 h-5" /></div>
@@ -190,20 +941,66 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="flex flex-wrap items-center gap-2">
-          <button onClick={selectSource} className="flex items-center gap-2 px-3 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-bold border border-slate-200 transition-colors">
-            <FolderOpen className="w-3 h-3" /> Origen: {sourceHandle?.name || '---'}
+          {!HAS_FS_ACCESS && (
+            <button onClick={() => setShowCompatibility(true)} title="Este navegador no permite escribir en carpetas: el resultado se descarga como ZIP" className="px-2 py-1 bg-amber-50 text-amber-700 border border-amber-200 rounded-lg text-[9px] font-black uppercase">Modo compatible</button>
+          )}
+          {watching && (
+            <span title={watchCheck ? `Última comprobación: ${new Date(watchCheck.at).toLocaleTimeString()}` : undefined} className="flex items-center gap-1 px-2 py-1 bg-emerald-50 text-emerald-700 border border-emerald-200 rounded-lg text-[9px] font-black uppercase">
+              <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse" /> Vigilando · {watchLog[0] ? `última ejecución ${new Date(watchLog[0].at).toLocaleTimeString()}` : 'sin ejecuciones'}
+            </span>
+          )}
+          <FolderPicker role="source" label="Origen" current={sourceHandle ?? (looseRoot !== null ? { name: looseRoot } : null)} onPick={selectSource} onSelectRecent={h => openRecent('source', h)} />
+          <input ref={folderInput} type="file" multiple className="hidden" {...({ webkitdirectory: '' } as any)} onChange={e => {
+            if (e.target.files?.length) {
+              const picked = looseFilesFromInput(e.target.files);
+              loadLooseFiles(picked.root, picked.files);
+            }
+            e.target.value = '';
+          }} />
+          <button onClick={rescan} disabled={!sourceHandle || isProcessing || scanCount !== null} title="Reescanear origen conservando las ediciones" className="p-1.5 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 text-slate-600 rounded-lg border border-slate-200 transition-colors">
+            <RefreshCw className="w-3 h-3" />
           </button>
-          <button onClick={selectDestination} className="flex items-center gap-2 px-3 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-bold border border-slate-200 transition-colors">
-            <FolderOpen className="w-3 h-3" /> Destino: {destHandle?.name || '---'}
-          </button>
-          <button disabled={filteredFiles.length === 0 || !destHandle || isProcessing} onClick={() => setShowConfirm(true)} className="flex items-center gap-2 px-4 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 text-white rounded-lg font-bold text-xs shadow-md transition-all">
+          <FolderPicker role="dest" label="Destino" current={destHandle} disabled={globalConfig.mode === 'rename' || globalConfig.mode === 'zip'} onPick={selectDestination} onSelectRecent={h => openRecent('dest', h)} />
+          <select value={globalConfig.mode} onChange={e => setGlobalConfig(prev => ({...prev, mode: e.target.value as BatchMode}))} className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 outline-none focus:ring-1 focus:ring-indigo-500">
+            {(Object.keys(MODE_LABELS) as BatchMode[]).filter(m => HAS_FS_ACCESS || m === 'zip').map(m => <option key={m} value={m}>{MODE_LABELS[m]}</option>)}
+          </select>
+          <button disabled={!canExecute} onClick={() => setShowConfirm(true)} className="flex items-center gap-2 px-4 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 text-white rounded-lg font-bold text-xs shadow-md transition-all">
             <Play className="w-3 h-3" /> EJECUTAR
           </button>
         </div>
       </header>
 
+      {pickerError && (
+        <div className="flex items-center gap-2 px-4 py-2 bg-rose-50 border border-rose-200 rounded-lg text-[11px] text-rose-700">
+          <AlertCircle className="w-3 h-3 flex-shrink-0" /> <b>{pickerError.title}:</b> {pickerError.msg}
+          <button onClick={() => setPickerError(null)} className="ml-auto"><XCircle className="w-3 h-3" /></button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-5 gap-4 flex-1 overflow-hidden">
         <aside className="lg:col-span-1 space-y-4 overflow-y-auto pr-1 custom-scrollbar">
+          <section className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+            <h2 className="text-[10px] font-black flex items-center gap-2 text-slate-400 uppercase tracking-widest border-b pb-2"><Bookmark className="w-3 h-3" /> Presets</h2>
+            <PresetManager config={globalConfig} filters={filters} scanOptions={scanOptions} onApply={applyPreset} />
+          </section>
+
+          {HAS_FS_ACCESS && (
+            <section className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+              <h2 className="text-[10px] font-black flex items-center gap-2 text-slate-400 uppercase tracking-widest border-b pb-2"><Radar className="w-3 h-3" /> Vigilancia</h2>
+              <WatchPanel
+                settings={watchSettings}
+                active={watching}
+                canStart={!!sourceHandle && !isProcessing}
+                lastCheck={watchCheck?.at ?? null}
+                waiting={watchCheck?.waiting ?? 0}
+                log={watchLog}
+                onChange={patch => setWatchSettings(prev => ({ ...prev, ...patch }))}
+                onToggle={toggleWatch}
+                onClearLog={() => { clearWatchLog(); setWatchLog([]); }}
+              />
+            </section>
+          )}
+
           <section className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
             <h2 className="text-[10px] font-black flex items-center gap-2 text-slate-400 uppercase tracking-widest border-b pb-2"><RefreshCw className="w-3 h-3" /> Configuración Global</h2>
             <div className="space-y-2">
@@ -218,33 +1015,115 @@ const App: React.FC = () => {
                 </div>
               </div>
               
+              <div className="pt-2 space-y-1.5 border-t border-slate-100">
+                <label className="text-[9px] font-bold text-slate-400 uppercase">Plantilla</label>
+                <input type="text" value={globalConfig.template} onChange={e => setGlobalConfig(prev => ({...prev, template: e.target.value}))} className={`w-full px-2 py-1 bg-slate-50 border rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-indigo-500 ${templateErrors.length ? 'border-rose-300' : 'border-slate-200'}`} placeholder="INV_{yyyy}-{MM}-{dd}_{counter:000}.{ext}" />
+                {templateErrors.map(err => <p key={err} className="text-[9px] text-rose-600">{err}</p>)}
+                <div className="flex flex-wrap gap-0.5">
+                  {TEMPLATE_TOKENS.map(t => (
+                    <button key={t.token} title={t.description} onClick={() => setGlobalConfig(prev => ({...prev, template: prev.template + t.token}))} className="px-1 py-0.5 bg-indigo-50 hover:bg-indigo-100 text-indigo-600 rounded text-[8px] font-mono font-bold">{t.token}</button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-[9px] font-bold text-slate-400 uppercase">Contador: inicio</label>
+                    <input type="number" value={globalConfig.counterStart} onChange={e => setGlobalConfig(prev => ({...prev, counterStart: parseInt(e.target.value) || 0}))} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500" />
+                  </div>
+                  <div>
+                    <label className="text-[9px] font-bold text-slate-400 uppercase">Paso</label>
+                    <input type="number" value={globalConfig.counterStep} onChange={e => setGlobalConfig(prev => ({...prev, counterStep: parseInt(e.target.value) || 1}))} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500" />
+                  </div>
+                </div>
+              </div>
+
               <div className="pt-2 space-y-2 border-t border-slate-100">
-                 <div className="flex items-center gap-1 text-[9px] font-black text-indigo-400 uppercase tracking-widest"><Replace className="w-2.5 h-2.5" /> Sustituir</div>
-                 <div className="grid grid-cols-1 gap-1.5">
-                    <input 
-                      type="text" 
-                      value={globalConfig.find} 
-                      onChange={e => setGlobalConfig(prev => ({...prev, find: e.target.value}))} 
-                      className="w-full px-2 py-1 bg-indigo-50/50 border border-indigo-100 rounded text-[10px] outline-none focus:ring-1 focus:ring-indigo-500 font-medium" 
-                      placeholder="Buscar..." 
-                    />
-                    <input 
-                      type="text" 
-                      value={globalConfig.replace} 
-                      onChange={e => setGlobalConfig(prev => ({...prev, replace: e.target.value}))} 
-                      className="w-full px-2 py-1 bg-emerald-50/50 border border-emerald-100 rounded text-[10px] outline-none focus:ring-1 focus:ring-emerald-500 font-medium" 
-                      placeholder="Reemplazar por..." 
-                    />
-                 </div>
+                 <div className="flex items-center gap-1 text-[9px] font-black text-indigo-400 uppercase tracking-widest"><Replace className="w-2.5 h-2.5" /> Reglas</div>
+                 <RuleEditor rules={globalConfig.rules} onChange={rules => setGlobalConfig(prev => ({...prev, rules}))} />
               </div>
             </div>
-            <label className="flex items-center gap-2 cursor-pointer pt-1"><input type="checkbox" checked={globalConfig.overwrite} onChange={e => setGlobalConfig(prev => ({...prev, overwrite: e.target.checked}))} className="w-3 h-3 rounded border-slate-300 text-indigo-600" /><span className="text-[11px] font-medium text-slate-600">Sobrescribir</span></label>
+            <div className="pt-1">
+              <label className="text-[9px] font-bold text-slate-400 uppercase">Si el nombre ya existe</label>
+              <select value={globalConfig.conflictPolicy} onChange={e => setGlobalConfig(prev => ({...prev, conflictPolicy: e.target.value as ConflictPolicy}))} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500">
+                <option value="skip">Omitir</option>
+                <option value="overwrite">Sobrescribir</option>
+                <option value="number">Numerar: nombre (2).ext</option>
+                <option value="newer">Conservar el más reciente</option>
+                <option value="larger">Conservar el más grande</option>
+              </select>
+              <label className="flex items-center gap-2 cursor-pointer pt-2">
+                <input type="checkbox" checked={globalConfig.skipExistingContent} onChange={e => setGlobalConfig(prev => ({...prev, skipExistingContent: e.target.checked}))} className="w-3 h-3 rounded border-slate-300 text-indigo-600" />
+                <span className="text-[11px] font-medium text-slate-600">Omitir si el contenido ya existe en el destino</span>
+              </label>
+            </div>
+            <div className="pt-1 grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-[9px] font-bold text-slate-400 uppercase">Sistema destino</label>
+                <select value={globalConfig.targetProfile} onChange={e => setGlobalConfig(prev => ({...prev, targetProfile: e.target.value as TargetProfile}))} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500">
+                  {(Object.keys(TARGET_PROFILES) as TargetProfile[]).map(p => <option key={p} value={p}>{TARGET_PROFILES[p].label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="text-[9px] font-bold text-slate-400 uppercase">Corregir nombres</label>
+                <div className="flex gap-1">
+                  <select value={globalConfig.sanitizeMode} onChange={e => setGlobalConfig(prev => ({...prev, sanitizeMode: e.target.value as SanitizeMode}))} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500">
+                    <option value="off">No</option>
+                    <option value="replace">Sustituir</option>
+                    <option value="strip">Eliminar</option>
+                  </select>
+                  {globalConfig.sanitizeMode === 'replace' && (
+                    <input type="text" maxLength={3} value={globalConfig.sanitizeReplacement} onChange={e => setGlobalConfig(prev => ({...prev, sanitizeReplacement: e.target.value}))} title="Carácter de sustitución" className="w-8 px-1 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center font-mono outline-none focus:ring-1 focus:ring-indigo-500" />
+                  )}
+                </div>
+              </div>
+            </div>
+          </section>
+
+          <section className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+            <h2 className="text-[10px] font-black flex items-center gap-2 text-slate-400 uppercase tracking-widest border-b pb-2"><FolderTree className="w-3 h-3" /> Subcarpetas</h2>
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2 items-end">
+                <label className="flex items-center gap-2 cursor-pointer pb-1"><input type="checkbox" checked={scanOptions.recursive} onChange={e => updateScanOptions({ recursive: e.target.checked })} className="w-3 h-3 rounded border-slate-300 text-indigo-600" /><span className="text-[11px] font-medium text-slate-600">Recursivo</span></label>
+                <div>
+                  <label className="text-[9px] font-bold text-slate-400 uppercase">Prof. Máx</label>
+                  <input type="number" min={1} disabled={!scanOptions.recursive} value={scanOptions.maxDepth} onChange={e => updateScanOptions({ maxDepth: e.target.value === '' ? '' : Math.max(1, parseInt(e.target.value)) })} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50" placeholder="∞" />
+                </div>
+              </div>
+              <div>
+                <label className="text-[9px] font-bold text-slate-400 uppercase">Estructura Destino</label>
+                <select value={globalConfig.folderMode} onChange={e => setGlobalConfig(prev => ({...prev, folderMode: e.target.value as FolderMode}))} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500">
+                  <option value="mirror">Replicar subcarpetas</option>
+                  <option value="flatten">Aplanar en una carpeta</option>
+                  <option value="template">Organizar con plantilla</option>
+                </select>
+              </div>
+              {globalConfig.folderMode === 'template' && (
+                <div className="space-y-1.5">
+                  <div className="flex gap-1">
+                    <input type="text" value={globalConfig.folderTemplate} onChange={e => setGlobalConfig(prev => ({...prev, folderTemplate: e.target.value}))} className={`w-full px-2 py-1 bg-slate-50 border rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-indigo-500 ${folderTemplateErrors.length ? 'border-rose-300' : 'border-slate-200'}`} placeholder="{yyyy}/{MM}" />
+                    <select value="" onChange={e => e.target.value && setGlobalConfig(prev => ({...prev, folderTemplate: e.target.value}))} title="Plantillas de ejemplo" className="w-16 px-1 py-1 bg-slate-50 border border-slate-200 rounded text-[10px] outline-none">
+                      <option value="">Ej.</option>
+                      {FOLDER_TEMPLATE_EXAMPLES.map(ex => <option key={ex.template} value={ex.template}>{ex.label}</option>)}
+                    </select>
+                  </div>
+                  {globalConfig.folderTemplate.includes('{match') && (
+                    <input type="text" value={globalConfig.folderPattern} onChange={e => setGlobalConfig(prev => ({...prev, folderPattern: e.target.value}))} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-[10px] font-mono outline-none focus:ring-1 focus:ring-indigo-500" placeholder="Regex sobre el nombre: ^(\w+)_" />
+                  )}
+                  {folderTemplateErrors.map(err => <p key={err} className="text-[9px] text-rose-600">{err}</p>)}
+                  <p className="text-[9px] text-slate-400">Usa / para anidar carpetas. Admite los tokens de la plantilla de nombre. Las carpetas se crean al ejecutar.</p>
+                </div>
+              )}
+            </div>
           </section>
 
           <section className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
             <h2 className="text-[10px] font-black flex items-center gap-2 text-slate-400 uppercase tracking-widest border-b pb-2"><FileText className="w-3 h-3" /> Mapeo Externo</h2>
-            <textarea value={pastedNames} onChange={e => setPastedNames(e.target.value)} className="w-full h-60 px-2 py-1 bg-slate-50 border border-slate-200 rounded text-[10px] outline-none focus:ring-1 focus:ring-indigo-500 resize-none font-mono" placeholder="Pega aquí los nombres..." />
-            <button onClick={applyPastedNames} className="w-full py-1.5 bg-slate-800 text-white rounded-lg text-[10px] font-bold hover:bg-slate-900 transition-colors uppercase">Asignar a Lista Visible</button>
+            <textarea value={pastedNames} onChange={e => setPastedNames(e.target.value)} className="w-full h-40 px-2 py-1 bg-slate-50 border border-slate-200 rounded text-[10px] outline-none focus:ring-1 focus:ring-indigo-500 resize-none font-mono whitespace-pre" placeholder={'Pega celdas de Excel o CSV:\noriginal → nuevo\nIMG_001.jpg\tPlaya_01'} />
+            <div className="grid grid-cols-2 gap-1">
+              <button onClick={() => mappingFileInput.current?.click()} className="flex items-center justify-center gap-1 py-1 bg-slate-100 hover:bg-slate-200 rounded text-[10px] font-bold"><Upload className="w-3 h-3" /> CSV / TSV</button>
+              <button disabled={filteredFiles.length === 0} onClick={exportTableCsv} className="flex items-center justify-center gap-1 py-1 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 rounded text-[10px] font-bold"><Download className="w-3 h-3" /> Exportar tabla</button>
+            </div>
+            <input ref={mappingFileInput} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" className="hidden" onChange={e => { const file = e.target.files?.[0]; if (file) loadMappingFile(file); e.target.value = ''; }} />
+            <button disabled={!pastedNames.trim() || files.length === 0} onClick={() => setShowMappingReview(true)} className="w-full py-1.5 bg-slate-800 text-white rounded-lg text-[10px] font-bold hover:bg-slate-900 disabled:opacity-40 transition-colors uppercase">Revisar y Asignar</button>
           </section>
         </aside>
 
@@ -255,6 +1134,10 @@ const App: React.FC = () => {
               <span className="text-[11px] font-mono font-bold text-indigo-700 leading-none">{filteredFiles.length}</span>
               <span className="text-[10px] text-slate-300 font-bold">/</span>
               <span className="text-[11px] font-mono font-medium text-slate-400 leading-none">{files.length}</span>
+              <span className="text-[9px] font-black text-slate-400 uppercase ml-2">Lote:</span>
+              <span className="text-[11px] font-mono font-bold text-emerald-700 leading-none">{batchFiles.length}</span>
+              <button onClick={invertSelection} disabled={filteredFiles.length === 0} className="ml-1 text-[9px] font-black text-slate-500 hover:text-indigo-700 uppercase disabled:opacity-40">Invertir</button>
+              {scanCount !== null && <span className="ml-2 flex items-center gap-1 text-[9px] font-black text-indigo-500 uppercase"><RefreshCw className="w-2.5 h-2.5 animate-spin" /> Escaneando {scanCount}</span>}
             </div>
 
             <div className="flex items-center gap-2 border-r border-slate-300 pr-3 h-6">
@@ -303,73 +1186,175 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <div className="flex items-center gap-2 border-r border-slate-300 pr-3 h-6">
+              <label className="text-[9px] font-black text-slate-400 uppercase flex items-center gap-1"><FolderTree className="w-3 h-3" /> Ruta:</label>
+              <input 
+                type="text" 
+                value={filters.path}
+                onChange={e => setFilters(prev => ({...prev, path: e.target.value}))}
+                className="w-24 px-1 py-0.5 text-[10px] font-bold bg-white border border-slate-300 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                placeholder="2024/03"
+              />
+            </div>
+
             <div className="flex items-center gap-2 flex-1 min-w-[120px]">
               <div className="relative w-full">
                 <Search className="w-3 h-3 absolute left-2 top-1.5 text-slate-400" />
                 <input 
                   type="text" 
-                  placeholder="FILTRAR..."
+                  placeholder={filters.searchMode === 'text' ? 'FILTRAR...' : filters.searchMode === 'glob' ? '*.pdf' : '^IMG_\\d+'}
                   value={filters.search}
                   onChange={e => setFilters(prev => ({...prev, search: e.target.value}))}
-                  className="w-full pl-7 pr-2 py-0.5 bg-white border border-slate-300 rounded text-[10px] font-bold outline-none focus:ring-1 focus:ring-indigo-500 uppercase tracking-tight"
+                  className={`w-full pl-7 pr-2 py-0.5 bg-white border rounded text-[10px] font-bold outline-none focus:ring-1 focus:ring-indigo-500 tracking-tight ${filters.searchMode === 'text' ? 'uppercase' : 'font-mono'} ${filterErrors.length ? 'border-rose-400' : 'border-slate-300'}`}
+                  title={filterErrors.join('\n') || undefined}
                 />
               </div>
+              <select 
+                value={filters.searchMode}
+                onChange={e => setFilters(prev => ({...prev, searchMode: e.target.value as SearchMode}))}
+                className="bg-white border border-slate-300 rounded text-[10px] font-bold text-slate-700 px-1 py-0.5 outline-none focus:ring-1 focus:ring-indigo-500"
+              >
+                <option value="text">Texto</option>
+                <option value="glob">Glob</option>
+                <option value="regex">Regex</option>
+              </select>
+              <button 
+                onClick={() => setFilters(prev => ({...prev, searchExclude: !prev.searchExclude}))}
+                title={filters.searchExclude ? 'Excluyendo coincidencias' : 'Incluyendo coincidencias'}
+                className={`px-1.5 py-0.5 rounded border text-[9px] font-black uppercase ${filters.searchExclude ? 'bg-rose-50 border-rose-300 text-rose-700' : 'bg-white border-slate-300 text-slate-500'}`}
+              >
+                {filters.searchExclude ? 'Excluir' : 'Incluir'}
+              </button>
+              <button 
+                onClick={() => setShowAdvancedFilters(v => !v)}
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-[9px] font-black uppercase ${showAdvancedFilters || advancedFilterCount ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'bg-white border-slate-300 text-slate-500'}`}
+              >
+                <ListFilter className="w-3 h-3" /> Filtros{advancedFilterCount > 0 && ` (${advancedFilterCount})`}
+              </button>
+              <div className="relative">
+                <button 
+                  onClick={() => setShowMetaMenu(v => !v)}
+                  className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-[9px] font-black uppercase ${showMetaMenu || metaColumns.length ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'bg-white border-slate-300 text-slate-500'}`}
+                >
+                  <Camera className="w-3 h-3" /> {metaProgress ? `Metadatos ${metaProgress.done}/${metaProgress.total}` : 'Metadatos'}
+                </button>
+                {showMetaMenu && (
+                  <div className="absolute right-0 top-full mt-1 w-48 bg-white border border-slate-200 rounded-lg shadow-xl z-30 py-1">
+                    <button onClick={readMetadata} disabled={!!metaProgress || pendingMetadata === 0} className="w-full text-left px-3 py-1 text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 disabled:text-slate-300 disabled:hover:bg-transparent">
+                      Leer metadatos ({pendingMetadata} pendientes)
+                    </button>
+                    <div className="px-3 pt-1 text-[8px] font-black text-slate-400 uppercase border-t border-slate-100">Columnas</div>
+                    {(Object.keys(METADATA_COLUMNS) as MetadataColumn[]).map(c => (
+                      <label key={c} className="flex items-center gap-2 px-3 py-0.5 text-[10px] text-slate-600 cursor-pointer hover:bg-slate-50">
+                        <input type="checkbox" checked={metaColumns.includes(c)} onChange={() => setMetaColumns(prev => prev.includes(c) ? prev.filter(x => x !== c) : [...prev, c])} className="w-3 h-3" /> {METADATA_COLUMNS[c]}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="relative">
+                <button 
+                  onClick={() => setShowDuplicateMenu(v => !v)}
+                  className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-[9px] font-black uppercase ${showDuplicateMenu || filters.duplicatesOnly ? 'bg-violet-50 border-violet-300 text-violet-700' : 'bg-white border-slate-300 text-slate-500'}`}
+                >
+                  <Copy className="w-3 h-3" /> {hashProgress ? `Hash ${hashProgress.phase === 'partial' ? 'parcial' : 'completo'} ${hashProgress.done}/${hashProgress.total}` : `Duplicados${duplicateGroups.size ? ` (${duplicateGroups.size})` : ''}`}
+                </button>
+                {showDuplicateMenu && (
+                  <div className="absolute right-0 top-full mt-1 w-56 bg-white border border-slate-200 rounded-lg shadow-xl z-30 py-1">
+                    {hashProgress ? (
+                      <button onClick={() => hashAbort.current?.abort()} className="w-full text-left px-3 py-1 text-[10px] font-bold text-rose-600 hover:bg-rose-50">Cancelar cálculo</button>
+                    ) : (
+                      <button onClick={() => hashAll()} disabled={files.length === 0} className="w-full text-left px-3 py-1 text-[10px] font-bold text-violet-600 hover:bg-violet-50 disabled:text-slate-300 disabled:hover:bg-transparent">
+                        Calcular hashes {destHandle && globalConfig.mode !== 'rename' ? '(origen + destino)' : '(origen)'}
+                      </button>
+                    )}
+                    <label className="flex items-center gap-2 px-3 py-1 text-[10px] text-slate-600 cursor-pointer hover:bg-slate-50 border-t border-slate-100">
+                      <input type="checkbox" checked={filters.duplicatesOnly} onChange={e => setFilters(prev => ({...prev, duplicatesOnly: e.target.checked}))} className="w-3 h-3" /> Solo duplicados
+                    </label>
+                    <div className="px-3 py-1 text-[9px] text-slate-400 border-t border-slate-100">
+                      {pendingHashes === files.length
+                        ? 'Sin calcular'
+                        : `${duplicateGroups.size} grupos · ${duplicateIds.size} ficheros${destContents ? ` · ${files.filter(f => f.contentHash && destContents.has(f.contentHash)).length} ya en destino` : ''}`}
+                    </div>
+                  </div>
+                )}
+              </div>
+              <button 
+                onClick={() => {
+                  if (!showPreview && !focusedFile && filteredFiles.length) setFocusedId(filteredFiles[0].id);
+                  setShowPreview(v => !v);
+                }}
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-[9px] font-black uppercase ${showPreview ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'bg-white border-slate-300 text-slate-500'}`}
+              >
+                <Eye className="w-3 h-3" /> Vista previa
+              </button>
             </div>
 
             <div className="flex items-center gap-2 border-l border-slate-300 pl-3 h-6">
               <div className="flex items-center gap-1 text-[8px] font-black bg-emerald-50 text-emerald-700 px-1.5 py-0.5 rounded border border-emerald-200 uppercase">OK: {files.filter(f => f.status === 'success').length}</div>
               <div className="flex items-center gap-1 text-[8px] font-black bg-rose-50 text-rose-700 px-1.5 py-0.5 rounded border border-rose-200 uppercase">ERR: {files.filter(f => f.status === 'error').length}</div>
+              <div className="flex items-center gap-1 text-[8px] font-black bg-slate-50 text-slate-500 px-1.5 py-0.5 rounded border border-slate-200 uppercase">OMIT: {files.filter(f => f.status === 'skipped').length}</div>
+              {report && !isProcessing && <button onClick={() => setShowReport(true)} title="Ver el informe de la última ejecución" className="flex items-center gap-1 text-[8px] font-black bg-white hover:bg-slate-50 text-indigo-600 px-1.5 py-0.5 rounded border border-slate-200 uppercase"><ClipboardList className="w-2.5 h-2.5" /> Informe</button>}
+              {conflictCount > 0 && <div className="flex items-center gap-1 text-[8px] font-black bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded border border-amber-200 uppercase"><AlertTriangle className="w-2.5 h-2.5" /> Conflictos: {conflictCount}</div>}
             </div>
           </div>
 
-          <div className="flex-1 overflow-auto custom-scrollbar bg-slate-200">
-            <table className="w-full text-left border-collapse table-fixed min-w-[1000px]">
-              <thead className="sticky top-0 bg-slate-50 shadow-sm z-10">
-                <tr className="border-b border-slate-300">
-                  <th className="w-10 border-r border-slate-200 px-1 py-1 text-[9px] font-black text-slate-400 text-center">#</th>
-                  <th className="w-1/4 border-r border-slate-200 px-3 py-1 text-[9px] font-black text-slate-500 uppercase">Original</th>
-                  <th className="w-16 border-r border-slate-200 px-1 py-1 text-[9px] font-black text-slate-500 text-center">P</th>
-                  <th className="border-r border-slate-200 px-3 py-1 text-[9px] font-black text-slate-500 uppercase">Base Nuevo</th>
-                  <th className="w-16 border-r border-slate-200 px-1 py-1 text-[9px] font-black text-slate-500 text-center">S</th>
-                  <th className="w-14 border-r border-slate-200 px-1 py-1 text-[9px] font-black text-slate-500 text-center">Ext</th>
-                  <th className="w-1/4 px-3 py-1 text-[9px] font-black text-slate-500 uppercase">Destino</th>
-                </tr>
-              </thead>
-              <tbody className="bg-white">
-                {filteredFiles.map((f, idx) => (
-                  <tr key={f.id} className={`hover:bg-indigo-50/40 border-b border-slate-100 ${idx % 2 === 0 ? '' : 'bg-slate-50/30'}`}>
-                    <td className="border-r border-slate-200 px-1 py-0.5 text-[8px] font-mono text-slate-400 text-center">{idx + 1}</td>
-                    <td className="border-r border-slate-200 px-3 py-0.5 overflow-hidden">
-                      <div className="flex items-center justify-between gap-1">
-                        <span className="text-[10px] text-slate-600 truncate flex-1 font-medium">{f.originalName}</span>
-                        {f.status !== 'pending' && (
-                          <div className="flex-shrink-0">
-                            {f.status === 'success' && <CheckCircle className="w-2.5 h-2.5 text-emerald-500" />}
-                            {f.status === 'error' && <XCircle className="w-2.5 h-2.5 text-rose-500" />}
-                            {f.status === 'processing' && <RefreshCw className="w-2.5 h-2.5 text-indigo-500 animate-spin" />}
-                          </div>
-                        )}
-                      </div>
-                    </td>
-                    <td className="border-r border-slate-200 p-0">
-                      <input type="text" value={f.prefix} placeholder={globalConfig.prefix} onChange={e => setFiles(prev => prev.map(i => i.id === f.id ? {...i, prefix: e.target.value} : i))} className="w-full text-center text-[9px] bg-transparent focus:bg-white outline-none py-1 px-1 h-6" />
-                    </td>
-                    <td className="border-r border-slate-200 p-0">
-                      <input type="text" value={f.customBaseName} onChange={e => setFiles(prev => prev.map(i => i.id === f.id ? {...i, customBaseName: e.target.value} : i))} className="w-full text-[10px] font-bold text-slate-800 bg-transparent focus:bg-white outline-none py-1 px-2 h-6" />
-                    </td>
-                    <td className="border-r border-slate-200 p-0">
-                      <input type="text" value={f.suffix} placeholder={globalConfig.suffix} onChange={e => setFiles(prev => prev.map(i => i.id === f.id ? {...i, suffix: e.target.value} : i))} className="w-full text-center text-[9px] bg-transparent focus:bg-white outline-none py-1 px-1 h-6" />
-                    </td>
-                    <td className="border-r border-slate-200 p-0">
-                      <input type="text" value={f.extension} placeholder={globalConfig.extension} onChange={e => setFiles(prev => prev.map(i => i.id === f.id ? {...i, extension: e.target.value} : i))} className="w-full text-center text-[9px] bg-transparent focus:bg-white outline-none py-1 px-1 h-6" />
-                    </td>
-                    <td className="px-3 py-0.5 bg-slate-50/50">
-                      <span className="text-[9px] font-mono font-black text-indigo-600 truncate block" title={getFinalName(f)}>{getFinalName(f)}</span>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+          {showAdvancedFilters && <AdvancedFilters files={files} filters={filters} onChange={patch => setFilters(prev => ({...prev, ...patch}))} />}
+          {filterErrors.length > 0 && <div className="px-3 py-1 bg-rose-50 border-b border-rose-200 text-[10px] text-rose-700">{filterErrors.join(' · ')}</div>}
+          {nameIssues.size > 0 && (
+            <div className={`px-3 py-1 border-b flex flex-wrap items-center gap-3 text-[10px] ${nameErrorCount ? 'bg-rose-50 border-rose-200 text-rose-700' : 'bg-amber-50 border-amber-200 text-amber-700'}`}>
+              <span className="flex items-center gap-1 font-bold"><AlertCircle className="w-3 h-3" /> {TARGET_PROFILES[globalConfig.targetProfile].label}: {nameErrorCount} nombres no válidos · {nameWarningCount} con avisos</span>
+              {globalConfig.sanitizeMode === 'off' && (
+                <button onClick={() => setGlobalConfig(prev => ({...prev, sanitizeMode: 'replace'}))} className="px-2 py-0.5 bg-white border border-current rounded text-[9px] font-black uppercase">Corregir automáticamente</button>
+              )}
+              {nameErrorCount > 0 && (
+                <label className="flex items-center gap-1 cursor-pointer font-bold">
+                  <input type="checkbox" checked={waiveNameErrors} onChange={e => setWaiveNameErrors(e.target.checked)} className="w-3 h-3" /> Ignorar y permitir ejecutar
+                </label>
+              )}
+            </div>
+          )}
+
+          {selectedVisible.length > 0 && (
+            <BulkActions
+              count={selectedVisible.length}
+              onSetField={(field, value) => updateSelected(() => ({ [field]: value }))}
+              onResetBase={() => updateSelected(f => ({ customBaseName: getBaseName(f.originalName) }))}
+              onExclude={excluded => updateSelected(() => ({ excluded }))}
+              onSuggest={() => setShowSuggestions(true)}
+              onRemove={() => removeFromList(new Set(selectedVisible.map(f => f.id)))}
+              onClear={() => selectAllVisible(false)}
+            />
+          )}
+
+          <div className="flex-1 min-h-0 flex">
+            <FileTable
+              files={filteredFiles}
+              selectedIds={selectedIds}
+              config={globalConfig}
+              metaColumns={metaColumns}
+              plan={batchPlan}
+              getFinalName={getFinalName}
+              describeDuplicate={describeDuplicate}
+              getNameIssues={getNameIssues}
+              onToggleRow={toggleRow}
+              onSelectAll={selectAllVisible}
+              onEdit={updateFiles}
+              focusedId={focusedId}
+              onFocusRow={setFocusedId}
+            />
+            {showPreview && (
+              <PreviewPane
+                file={focusedFile}
+                finalName={focusedFile ? getFinalName(focusedFile) : ''}
+                hasPrevious={focusedIndex > 0}
+                hasNext={focusedIndex >= 0 && focusedIndex < filteredFiles.length - 1}
+                onPrevious={() => setFocusedId(filteredFiles[focusedIndex - 1].id)}
+                onNext={() => setFocusedId(filteredFiles[focusedIndex + 1].id)}
+                onEdit={patch => focusedFile && updateFiles([focusedFile.id], patch)}
+                onClose={() => setShowPreview(false)}
+              />
+            )}
           </div>
         </main>
       </div>
@@ -377,6 +1362,7 @@ const App: React.FC = () => {
       <footer className="px-4 py-2 text-[10px] text-slate-400 border-t border-slate-200 flex flex-wrap justify-between items-center bg-white rounded-lg shadow-sm gap-4">
         <p>Creado por <span className="font-black text-slate-500 uppercase tracking-tighter">Gabriel Santos Grillo - 2026</span></p>
         <div className="flex gap-4">
+          <button onClick={() => setShowHistory(true)} className="hover:text-indigo-600 font-black uppercase tracking-widest flex items-center gap-1 transition-colors"><History className="w-3 h-3" /> Historial</button>
           <button onClick={() => setShowCompatibility(true)} className="hover:text-amber-600 font-black uppercase tracking-widest flex items-center gap-1 transition-colors"><Monitor className="w-3 h-3" /> Compatibilidad</button>
           <button onClick={() => setShowPrivacy(true)} className="hover:text-indigo-600 font-black uppercase tracking-widest flex items-center gap-1 transition-colors"><ShieldCheck className="w-3 h-3" /> Privacidad</button>
         </div>
@@ -387,21 +1373,76 @@ const App: React.FC = () => {
           <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full p-6 space-y-4 border border-slate-200">
             <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2"><AlertTriangle className="w-5 h-5 text-amber-500" /> Confirmar Proceso</h3>
             <div className="text-xs text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100 font-medium">
-              Se procesarán <b className="text-indigo-600">{filteredFiles.length}</b> ficheros seleccionados hacia el destino.
+              {globalConfig.mode === 'rename'
+                ? <>Se renombrarán <b className="text-indigo-600">{batchFiles.length}</b> ficheros en su carpeta de origen.</>
+                : globalConfig.mode === 'zip'
+                ? <>Se empaquetarán <b className="text-indigo-600">{batchFiles.length}</b> ficheros en un ZIP para descargar, con sus nombres y carpetas finales.</>
+                : <>Se {globalConfig.mode === 'move' ? 'moverán' : 'copiarán'} <b className="text-indigo-600">{batchFiles.length}</b> ficheros seleccionados hacia el destino.</>}
+              <div className="mt-1 text-[10px] text-slate-400">
+                Seleccionados: <b>{selectedVisible.length}</b> de <b>{filteredFiles.length}</b> visibles
+                {selectedVisible.length !== batchFiles.length && <> · {selectedVisible.length - batchFiles.length} excluidos</>}
+              </div>
             </div>
+            {globalConfig.mode !== 'rename' && folderSummary.length > 1 && (
+              <div className="text-xs text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100 font-medium">
+                <div className="mb-1">Repartidos en <b className="text-indigo-600">{folderSummary.length}</b> carpetas:</div>
+                <ul className="max-h-32 overflow-y-auto text-[10px] font-mono space-y-0.5">
+                  {folderSummary.map(([dir, count]) => (
+                    <li key={dir} className="flex justify-between gap-2"><span className="truncate" title={dir || '/'}>{dir || '/'}</span><b>{count}</b></li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {(globalConfig.mode === 'move' || globalConfig.mode === 'rename') && (
+              <div className="text-xs text-rose-800 bg-rose-50 p-3 rounded-lg border border-rose-200 font-medium">
+                Los ficheros originales dejarán de existir con su nombre actual.
+              </div>
+            )}
+            {conflictCount > 0 && (
+              <div className="text-xs text-amber-800 bg-amber-50 p-3 rounded-lg border border-amber-200 font-medium">
+                <b>{conflictCount}</b> ficheros tienen conflicto de nombre. Se omitirán <b>{[...batchPlan.values()].filter(p => p.action === 'skip' && p.conflicts.length > 0).length}</b> y se sobrescribirán <b>{[...batchPlan.values()].filter(p => p.action === 'overwrite').length}</b>.
+              </div>
+            )}
+            {nameErrorCount > 0 && (
+              <div className="text-xs text-rose-800 bg-rose-50 p-3 rounded-lg border border-rose-200 font-medium">
+                <b>{nameErrorCount}</b> nombres no son válidos para {TARGET_PROFILES[globalConfig.targetProfile].label}: esos ficheros probablemente fallarán.
+              </div>
+            )}
+            {contentSkipEnabled && [...batchPlan.values()].some(p => p.action === 'skip' && p.conflicts.length === 0) && (
+              <div className="text-xs text-violet-800 bg-violet-50 p-3 rounded-lg border border-violet-200 font-medium">
+                Se omitirán <b>{[...batchPlan.values()].filter(p => p.action === 'skip' && p.conflicts.length === 0).length}</b> ficheros cuyo contenido ya existe en el destino.
+              </div>
+            )}
             <div className="flex gap-2">
               <button onClick={() => setShowConfirm(false)} className="flex-1 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold transition-all">Cancelar</button>
-              <button onClick={executeBatch} className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-bold shadow-lg shadow-indigo-200 transition-all">Iniciar Ahora</button>
+              <button onClick={() => executeBatch()} className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-bold shadow-lg shadow-indigo-200 transition-all">Iniciar Ahora</button>
             </div>
           </div>
         </div>
       )}
 
+      {showSuggestions && (
+        <SuggestionPanel
+          files={selectedVisible}
+          onApply={updates => setFiles(prev => prev.map(f => updates.has(f.id) ? { ...f, ...updates.get(f.id) } : f))}
+          onClose={() => setShowSuggestions(false)}
+        />
+      )}
+
+      {report && showReport && !isProcessing && (
+        <BatchReportDialog
+          report={report}
+          retryable={report.entries.filter(e => e.outcome === 'error' && batchPlan.has(e.id)).length}
+          onRetryFailed={() => executeBatch(new Set(report.entries.filter(e => e.outcome === 'error' && batchPlan.has(e.id)).map(e => e.id)))}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
       {showPrivacy && (
         <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-2xl shadow-2xl max-w-xl w-full p-8 space-y-4 border border-slate-200">
             <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest border-b pb-2 flex items-center gap-2"><ShieldCheck className="w-4 h-4 text-indigo-600" /> Privacidad de Datos Local</h3>
-            <p className="text-[11px] text-slate-600 leading-relaxed italic">Esta herramienta procesa los archivos íntegramente en tu navegador. Los nombres, rutas y contenidos nunca abandonan tu ordenador ni se envían a ningún servidor externo. Gabriel Santos Grillo no tiene acceso a tus datos.</p>
+            <p className="text-[11px] text-slate-600 leading-relaxed italic">Esta herramienta procesa los archivos íntegramente en tu navegador. Los nombres, rutas y contenidos nunca abandonan tu ordenador ni se envían a ningún servidor externo, salvo que pidas sugerencias de nombre a Gemini o a un servidor que tú configures. Gabriel Santos Grillo no tiene acceso a tus datos.</p>
             <button onClick={() => setShowPrivacy(false)} className="w-full py-2 bg-slate-100 rounded-lg font-bold text-xs hover:bg-slate-200 transition-colors">CERRAR</button>
           </div>
         </div>
@@ -439,6 +1480,12 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+              <p className="text-[10px] text-slate-500 italic leading-snug">
+                <strong>Modo compatible:</strong> en los navegadores sin esta API puedes elegir la carpeta con el diálogo clásico o arrastrarla a la ventana. Los ficheros se leen sin permiso de escritura y el resultado, con los nombres y carpetas finales, se descarga como un ZIP.
+              </p>
+            </div>
+
             <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
               <p className="text-[10px] text-slate-500 italic leading-snug">
                 <strong>Nota Técnica:</strong> Los sistemas operativos móviles utilizan "sandboxing" estricto que impide que las aplicaciones web seleccionen directorios completos para lectura y escritura masiva. Para un funcionamiento óptimo, utiliza un ordenador de escritorio.
@@ -450,13 +1497,41 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showMappingReview && (
+        <MappingReview text={pastedNames} files={files} onApply={applyMapping} onClose={() => setShowMappingReview(false)} />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          onClose={() => setShowHistory(false)}
+          onUndone={() => { if (sourceHandle) scanFiles(sourceHandle); refreshDestIndex(); }}
+        />
+      )}
+
       {isProcessing && (
-        <div className="fixed bottom-14 right-8 bg-white p-4 rounded-xl shadow-2xl border border-slate-200 z-40 w-64">
+        <div className="fixed bottom-14 right-8 bg-white p-4 rounded-xl shadow-2xl border border-slate-200 z-40 w-72">
           <div className="flex items-center justify-between mb-2">
-            <h4 className="text-[10px] font-black text-slate-400 uppercase flex items-center gap-2"><Clock className="w-3 h-3 text-indigo-500 animate-spin" /> Procesando Lote</h4>
-            <span className="text-[10px] font-mono font-bold text-indigo-600">{files.filter(f => f.status === 'success' || f.status === 'error').length}/{filteredFiles.length}</span>
+            <h4 className="text-[10px] font-black text-slate-400 uppercase flex items-center gap-2"><Clock className={`w-3 h-3 text-indigo-500 ${transfer?.paused ? '' : 'animate-spin'}`} /> {transfer?.paused ? 'Lote en pausa' : 'Procesando Lote'}</h4>
+            <span className="text-[10px] font-mono font-bold text-indigo-600">{transfer?.doneFiles ?? 0}/{transfer?.totalFiles ?? batchFiles.length}</span>
+          </div>
+          <div className="w-full bg-slate-100 rounded-full h-1 overflow-hidden"><div className="bg-indigo-500 h-full transition-all" style={{ width: `${transfer && transfer.totalBytes ? (transfer.doneBytes / transfer.totalBytes) * 100 : transfer && transfer.totalFiles ? (transfer.doneFiles / transfer.totalFiles) * 100 : 0}%` }} /></div>
+          {transfer && (() => {
+            const rates = transferRates(transfer);
+            return (
+              <div className="mt-2 grid grid-cols-2 gap-x-2 text-[9px] font-mono text-slate-500">
+                <span>{formatBytes(transfer.doneBytes)} / {formatBytes(transfer.totalBytes)}</span>
+                <span className="text-right">{formatBytes(Math.round(rates.bytesPerSecond))}/s</span>
+                <span>{rates.filesPerSecond.toFixed(1)} fich/s</span>
+                <span className="text-right">ETA {rates.etaSeconds === null ? '—' : formatDuration(rates.etaSeconds)}</span>
+              </div>
+            );
+          })()}
+          <div className="mt-3 flex gap-2">
+            {transfer?.paused
+              ? <button onClick={() => batchJob.current?.resume()} className="flex-1 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-[10px] font-bold">Reanudar</button>
+              : <button onClick={() => batchJob.current?.pause()} className="flex-1 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded text-[10px] font-bold">Pausar</button>}
+            <button onClick={() => batchJob.current?.cancel()} className="flex-1 py-1 bg-rose-50 hover:bg-rose-100 text-rose-700 border border-rose-200 rounded text-[10px] font-bold">Cancelar</button>
           </div>
-          <div className="w-full bg-slate-100 rounded-full h-1 overflow-hidden"><div className="bg-indigo-500 h-full transition-all" style={{ width: `${(files.filter(f => f.status === 'success' || f.status === 'error').length / filteredFiles.length) * 100}%` }} /></div>
         </div>
       )}
 
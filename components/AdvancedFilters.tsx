@@ -0,0 +1,147 @@
+import React, { useMemo } from 'react';
+import { Plus, Trash2, EyeOff } from 'lucide-react';
+import { FileItem, FileStatus, FilterCondition, FilterField, FilterGroup, FilterOperator, FilterState } from '../types';
+import { collectFacets, operatorsFor } from '../utils/filterEngine';
+import { getExtension } from '../utils/fileUtils';
+
+const FIELD_LABELS: Record<FilterField, string> = {
+  name: 'Nombre', path: 'Ruta', ext: 'Extensión', type: 'Tipo MIME', size: 'Tamaño (KB)', date: 'Fecha', status: 'Estado',
+  taken: 'Fecha captura', camera: 'Cámara', title: 'Título', author: 'Autor', gps: 'GPS'
+};
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  contains: 'contiene', not_contains: 'no contiene', equals: 'es', not_equals: 'no es', starts: 'empieza por',
+  ends: 'termina en', glob: 'glob', regex: 'regex', gt: 'mayor / después de', lt: 'menor / antes de'
+};
+
+export const STATUS_LABELS: Record<FileStatus, string> = {
+  pending: 'Pendiente', processing: 'En curso', success: 'OK', error: 'Error', skipped: 'Omitido'
+};
+
+const chipClass = (active: boolean) => `px-1.5 py-0.5 rounded border text-[9px] font-bold transition-colors ${active ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-300 text-slate-600 hover:border-indigo-400'}`;
+const inputClass = 'px-1 py-0.5 text-[10px] bg-white border border-slate-300 rounded outline-none focus:ring-1 focus:ring-indigo-500';
+
+interface AdvancedFiltersProps {
+  files: FileItem[];
+  filters: FilterState;
+  onChange: (patch: Partial<FilterState>) => void;
+}
+
+const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({ files, filters, onChange }) => {
+  const extensions = useMemo(() => collectFacets(files, f => getExtension(f.originalName).toLowerCase()), [files]);
+  const types = useMemo(() => collectFacets(files, f => f.type || ''), [files]);
+
+  const updateGroup = (id: string, patch: Partial<FilterGroup>) => {
+    onChange({ groups: filters.groups.map(g => g.id === id ? { ...g, ...patch } : g) });
+  };
+
+  const updateCondition = (group: FilterGroup, id: string, patch: Partial<FilterCondition>) => {
+    updateGroup(group.id, {
+      conditions: group.conditions.map(c => {
+        if (c.id !== id) return c;
+        const next = { ...c, ...patch };
+        // Al cambiar de campo el operador anterior puede no tener sentido
+        if (!operatorsFor(next.field).includes(next.operator)) next.operator = operatorsFor(next.field)[0];
+        return next;
+      })
+    });
+  };
+
+  const newCondition = (): FilterCondition => ({ id: crypto.randomUUID(), field: 'name', operator: 'contains', value: '' });
+
+  return (
+    <div className="px-3 py-2 border-b border-slate-300 bg-slate-50 space-y-2">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-1">
+          <span className="text-[9px] font-black text-slate-400 uppercase">Tamaño KB:</span>
+          <input type="number" min={0} value={filters.minSize || ''} onChange={e => onChange({ minSize: parseFloat(e.target.value) || 0 })} className={`${inputClass} w-16`} placeholder="mín" />
+          <span className="text-[10px] text-slate-300">–</span>
+          <input type="number" min={0} value={filters.maxSize} onChange={e => onChange({ maxSize: e.target.value === '' ? '' : parseFloat(e.target.value) })} className={`${inputClass} w-16`} placeholder="máx" />
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-[9px] font-black text-slate-400 uppercase">Estado:</span>
+          {(Object.keys(STATUS_LABELS) as FileStatus[]).filter(s => s !== 'processing').map(s => (
+            <button key={s} onClick={() => onChange({ statuses: toggle(filters.statuses, s) })} className={chipClass(filters.statuses.includes(s))}>{STATUS_LABELS[s]}</button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 cursor-pointer text-[10px] font-bold text-slate-600">
+          <input type="checkbox" checked={filters.hideHidden} onChange={e => onChange({ hideHidden: e.target.checked })} className="w-3 h-3" />
+          <EyeOff className="w-3 h-3" /> Ocultar ocultos/sistema
+        </label>
+      </div>
+
+      {extensions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-[9px] font-black text-slate-400 uppercase mr-1">Extensión:</span>
+          {extensions.map(([ext, count]) => (
+            <button key={ext} onClick={() => onChange({ extensions: toggle(filters.extensions, ext) })} className={chipClass(filters.extensions.includes(ext))}>{ext || '(sin ext)'} <span className="opacity-60">{count}</span></button>
+          ))}
+        </div>
+      )}
+
+      {types.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-[9px] font-black text-slate-400 uppercase mr-1">MIME:</span>
+          {types.map(([type, count]) => (
+            <button key={type} onClick={() => onChange({ types: toggle(filters.types, type) })} className={chipClass(filters.types.includes(type))}>{type || '(desconocido)'} <span className="opacity-60">{count}</span></button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="text-[9px] font-black text-slate-400 uppercase">Grupos de condiciones</span>
+          {filters.groups.length > 1 && (
+            <select value={filters.groupJoin} onChange={e => onChange({ groupJoin: e.target.value as 'and' | 'or' })} className={inputClass}>
+              <option value="and">Cumplir todos los grupos (Y)</option>
+              <option value="or">Cumplir algún grupo (O)</option>
+            </select>
+          )}
+          <button onClick={() => onChange({ groups: [...filters.groups, { id: crypto.randomUUID(), join: 'and', conditions: [newCondition()] }] })} className="flex items-center gap-1 text-[9px] font-bold text-indigo-600 hover:text-indigo-800"><Plus className="w-3 h-3" /> Grupo</button>
+        </div>
+        {filters.groups.map((group, gi) => (
+          <div key={group.id} className="border border-slate-200 bg-white rounded p-1.5 space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="text-[9px] font-black text-slate-500 uppercase">Grupo {gi + 1}</span>
+              <select value={group.join} onChange={e => updateGroup(group.id, { join: e.target.value as 'and' | 'or' })} className={inputClass}>
+                <option value="and">Todas (Y)</option>
+                <option value="or">Alguna (O)</option>
+              </select>
+              <button onClick={() => updateGroup(group.id, { conditions: [...group.conditions, newCondition()] })} className="flex items-center gap-1 text-[9px] font-bold text-indigo-600 hover:text-indigo-800"><Plus className="w-3 h-3" /> Condición</button>
+              <button onClick={() => onChange({ groups: filters.groups.filter(g => g.id !== group.id) })} className="ml-auto text-slate-400 hover:text-rose-600"><Trash2 className="w-3 h-3" /></button>
+            </div>
+            {group.conditions.map(c => (
+              <div key={c.id} className="flex items-center gap-1">
+                <select value={c.field} onChange={e => updateCondition(group, c.id, { field: e.target.value as FilterField })} className={inputClass}>
+                  {(Object.keys(FIELD_LABELS) as FilterField[]).map(f => <option key={f} value={f}>{FIELD_LABELS[f]}</option>)}
+                </select>
+                <select value={c.operator} onChange={e => updateCondition(group, c.id, { operator: e.target.value as FilterOperator })} className={inputClass}>
+                  {operatorsFor(c.field).map(o => <option key={o} value={o}>{OPERATOR_LABELS[o]}</option>)}
+                </select>
+                {c.field === 'status' ? (
+                  <select value={c.value} onChange={e => updateCondition(group, c.id, { value: e.target.value })} className={inputClass}>
+                    <option value="">—</option>
+                    {(Object.keys(STATUS_LABELS) as FileStatus[]).map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+                  </select>
+                ) : c.field === 'gps' ? (
+                  <select value={c.value} onChange={e => updateCondition(group, c.id, { value: e.target.value })} className={inputClass}>
+                    <option value="">—</option>
+                    <option value="si">Con GPS</option>
+                    <option value="no">Sin GPS</option>
+                  </select>
+                ) : (
+                  <input type={c.field === 'date' || c.field === 'taken' ? 'date' : c.field === 'size' ? 'number' : 'text'} value={c.value} onChange={e => updateCondition(group, c.id, { value: e.target.value })} className={`${inputClass} flex-1 font-mono`} />
+                )}
+                <button onClick={() => updateGroup(group.id, { conditions: group.conditions.filter(x => x.id !== c.id) })} className="text-slate-300 hover:text-rose-600"><Trash2 className="w-3 h-3" /></button>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AdvancedFilters;
@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardList, Download, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { BatchReport } from '../types';
+import { ERROR_CAUSES, reportToCsv, reportToHtml, reportToJson, summarizeReport } from '../utils/batchReport';
+import { downloadBlob, formatBytes, formatDuration } from '../utils/fileUtils';
+
+const MODE_NAMES: Record<BatchReport['mode'], string> = { copy: 'Copia', move: 'Movimiento', rename: 'Renombrado', zip: 'ZIP' };
+
+interface BatchReportDialogProps {
+  report: BatchReport;
+  retryable: number; // Fallidos que siguen en el lote y se pueden reintentar
+  onRetryFailed: () => void;
+  onClose: () => void;
+}
+
+const BatchReportDialog: React.FC<BatchReportDialogProps> = ({ report, retryable, onRetryFailed, onClose }) => {
+  const summary = useMemo(() => summarizeReport(report), [report]);
+  const [expanded, setExpanded] = useState<string | null>(summary.errorGroups[0]?.[0] ?? null);
+  const seconds = report.activeMs / 1000;
+
+  const exportAs = (format: 'csv' | 'json' | 'html') => {
+    const stamp = new Date(report.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    if (format === 'csv') downloadBlob(reportToCsv(report), `informe-${stamp}.csv`, 'text/csv;charset=utf-8');
+    else if (format === 'json') downloadBlob(reportToJson(report), `informe-${stamp}.json`, 'application/json');
+    else downloadBlob(reportToHtml(report), `informe-${stamp}.html`, 'text/html;charset=utf-8');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[85vh] p-6 space-y-4 border border-slate-200 flex flex-col">
+        <div className="flex items-center justify-between border-b pb-2">
+          <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><ClipboardList className="w-4 h-4 text-indigo-600" /> Informe del Lote</h3>
+          <div className="flex gap-1">
+            {(['csv', 'json', 'html'] as const).map(format => (
+              <button key={format} onClick={() => exportAs(format)} className="flex items-center gap-1 px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded text-[10px] font-bold uppercase"><Download className="w-3 h-3" /> {format}</button>
+            ))}
+          </div>
+        </div>
+
+        <div className="text-[10px] text-slate-500">
+          {MODE_NAMES[report.mode]} · {new Date(report.startedAt).toLocaleString()}
+          {report.cancelled && <span className="ml-2 text-[8px] font-black bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded border border-amber-200 uppercase">Cancelado</span>}
+        </div>
+
+        <div className="grid grid-cols-5 gap-2 text-center">
+          <div className="bg-emerald-50 border border-emerald-200 rounded-lg py-2"><div className="text-lg font-black text-emerald-700">{summary.counts.success}</div><div className="text-[8px] font-black text-emerald-600 uppercase">Correctos</div></div>
+          <div className="bg-rose-50 border border-rose-200 rounded-lg py-2"><div className="text-lg font-black text-rose-700">{summary.counts.error}</div><div className="text-[8px] font-black text-rose-600 uppercase">Errores</div></div>
+          <div className="bg-slate-50 border border-slate-200 rounded-lg py-2"><div className="text-lg font-black text-slate-600">{summary.counts.skipped}</div><div className="text-[8px] font-black text-slate-500 uppercase">Omitidos</div></div>
+          <div className="bg-slate-50 border border-slate-200 rounded-lg py-2"><div className="text-sm font-black text-slate-700 pt-1">{formatBytes(summary.bytes)}</div><div className="text-[8px] font-black text-slate-500 uppercase">Procesado</div></div>
+          <div className="bg-slate-50 border border-slate-200 rounded-lg py-2">
+            <div className="text-sm font-black text-slate-700 pt-1">{formatDuration(seconds)}</div>
+            <div className="text-[8px] font-black text-slate-500 uppercase">{seconds > 0 && summary.bytes > 0 ? `${formatBytes(summary.bytes / seconds, 1)}/s` : 'Tiempo'}</div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+          {summary.errorGroups.length === 0 && <p className="text-[11px] text-slate-400 italic text-center py-6">Sin errores.</p>}
+          {summary.errorGroups.map(([cause, entries]) => {
+            const isOpen = expanded === cause;
+            return (
+              <div key={cause} className="border border-rose-200 rounded-lg">
+                <button onClick={() => setExpanded(isOpen ? null : cause)} className="w-full flex items-center gap-2 px-3 py-2 bg-rose-50 text-left">
+                  {isOpen ? <ChevronDown className="w-3 h-3 text-rose-400" /> : <ChevronRight className="w-3 h-3 text-rose-400" />}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[11px] font-bold text-rose-800">{ERROR_CAUSES[cause].label}</div>
+                    <div className="text-[9px] text-rose-600">{ERROR_CAUSES[cause].hint}</div>
+                  </div>
+                  <span className="text-[10px] font-black text-rose-700">{entries.length}</span>
+                </button>
+                {isOpen && (
+                  <div className="max-h-48 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+                    {entries.map(e => (
+                      <div key={e.id} className="flex items-center gap-2 px-3 py-1 text-[10px]">
+                        <span className="truncate flex-1 font-mono text-slate-600">{e.sourcePath ? `${e.sourcePath}/` : ''}{e.sourceName}</span>
+                        <span className="truncate max-w-[45%] text-rose-600" title={e.message}>{e.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={onClose} className="flex-1 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold transition-all">CERRAR</button>
+          {retryable > 0 && (
+            <button onClick={onRetryFailed} className="flex-1 flex items-center justify-center gap-1 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-bold shadow-lg shadow-indigo-200 transition-all">
+              <RotateCcw className="w-3 h-3" /> Reintentar {retryable} fallidos
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchReportDialog;
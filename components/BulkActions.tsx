@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { RotateCcw, Ban, CheckCircle, X, Sparkles, ListX } from 'lucide-react';
+
+type BulkField = 'prefix' | 'suffix' | 'extension';
+
+const FIELD_LABELS: Record<BulkField, string> = { prefix: 'Prefijo', suffix: 'Sufijo', extension: 'Extensión' };
+
+interface BulkActionsProps {
+  count: number;
+  onSetField: (field: BulkField, value: string) => void;
+  onResetBase: () => void;
+  onExclude: (excluded: boolean) => void;
+  onSuggest: () => void;
+  onRemove: () => void; // Quita las filas de la lista sin tocar los ficheros
+  onClear: () => void;
+}
+
+const BulkActions: React.FC<BulkActionsProps> = ({ count, onSetField, onResetBase, onExclude, onSuggest, onRemove, onClear }) => {
+  const [field, setField] = useState<BulkField>('prefix');
+  const [value, setValue] = useState('');
+
+  return (
+    <div className="px-3 py-1 border-b border-indigo-200 bg-indigo-50 flex flex-wrap items-center gap-3">
+      <span className="text-[10px] font-black text-indigo-700 uppercase">{count} seleccionados</span>
+      <div className="flex items-center gap-1 border-l border-indigo-200 pl-3">
+        <select value={field} onChange={e => setField(e.target.value as BulkField)} className="bg-white border border-indigo-200 rounded text-[10px] font-bold text-slate-700 px-1 py-0.5 outline-none">
+          {(Object.keys(FIELD_LABELS) as BulkField[]).map(f => <option key={f} value={f}>{FIELD_LABELS[f]}</option>)}
+        </select>
+        <input type="text" value={value} onChange={e => setValue(e.target.value)} onKeyDown={e => e.key === 'Enter' && onSetField(field, value)} className="w-24 px-1 py-0.5 text-[10px] bg-white border border-indigo-200 rounded outline-none focus:ring-1 focus:ring-indigo-500" placeholder="Valor" />
+        <button onClick={() => onSetField(field, value)} className="px-2 py-0.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-[9px] font-black uppercase">Aplicar</button>
+      </div>
+      <div className="flex items-center gap-2 border-l border-indigo-200 pl-3">
+        <button onClick={onResetBase} className="flex items-center gap-1 text-[9px] font-black text-slate-600 hover:text-indigo-700 uppercase"><RotateCcw className="w-3 h-3" /> Restablecer base</button>
+        <button onClick={() => onExclude(true)} className="flex items-center gap-1 text-[9px] font-black text-slate-600 hover:text-rose-700 uppercase"><Ban className="w-3 h-3" /> Excluir</button>
+        <button onClick={() => onExclude(false)} className="flex items-center gap-1 text-[9px] font-black text-slate-600 hover:text-emerald-700 uppercase"><CheckCircle className="w-3 h-3" /> Incluir</button>
+        <button onClick={onSuggest} className="flex items-center gap-1 text-[9px] font-black text-slate-600 hover:text-indigo-700 uppercase"><Sparkles className="w-3 h-3" /> Sugerir nombres</button>
+        <button onClick={onRemove} title="Los ficheros no se borran del disco" className="flex items-center gap-1 text-[9px] font-black text-slate-600 hover:text-rose-700 uppercase"><ListX className="w-3 h-3" /> Quitar de la lista</button>
+      </div>
+      <button onClick={onClear} title="Quitar selección" className="ml-auto text-slate-400 hover:text-slate-700"><X className="w-3 h-3" /></button>
+    </div>
+  );
+};
+
+export default BulkActions;
@@ -0,0 +1,418 @@
+import React, { memo, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, XCircle, SkipForward, RefreshCw, Columns3 } from 'lucide-react';
+import { FileItem, GlobalConfig, MetadataColumn, TableLayout } from '../types';
+import { PlannedItem } from '../utils/batchPlanner';
+import { NameIssue } from '../utils/filenameValidation';
+import { formatMetadata, METADATA_COLUMNS } from '../utils/metadata';
+import { validateTemplate } from '../utils/naming';
+import { loadTableLayout, storeTableLayout } from '../utils/tableLayout';
+
+type ColumnId = 'select' | 'index' | 'source' | 'path' | 'original' | 'prefix' | 'base' | 'suffix' | 'ext' | 'template' | 'dest' | `meta:${MetadataColumn}`;
+
+interface ColumnDef {
+  id: ColumnId;
+  label: string;
+  width: number;
+  hideable: boolean;
+  center?: boolean;
+}
+
+const BASE_COLUMNS: ColumnDef[] = [
+  { id: 'select', label: '', width: 28, hideable: false },
+  { id: 'index', label: '#', width: 44, hideable: false, center: true },
+  { id: 'source', label: 'Origen', width: 96, hideable: true },
+  { id: 'path', label: 'Ruta', width: 128, hideable: true },
+  { id: 'original', label: 'Original', width: 240, hideable: false },
+  { id: 'prefix', label: 'P', width: 64, hideable: true, center: true },
+  { id: 'base', label: 'Base Nuevo', width: 240, hideable: false },
+  { id: 'suffix', label: 'S', width: 64, hideable: true, center: true },
+  { id: 'ext', label: 'Ext', width: 56, hideable: true, center: true },
+  { id: 'template', label: 'Plantilla', width: 128, hideable: true, center: true }
+];
+const DEST_COLUMN: ColumnDef = { id: 'dest', label: 'Destino', width: 260, hideable: false };
+
+// Celdas que se recorren con el teclado, en orden de tabulación
+const EDITABLE = ['prefix', 'base', 'suffix', 'ext'] as const;
+type EditableColumn = typeof EDITABLE[number];
+const EDIT_FIELDS: Record<EditableColumn, 'prefix' | 'customBaseName' | 'suffix' | 'extension'> = {
+  prefix: 'prefix', base: 'customBaseName', suffix: 'suffix', ext: 'extension'
+};
+
+const ROW_HEIGHT = 25;
+const OVERSCAN = 12;
+const MIN_WIDTH = 32;
+
+const inputClass = 'w-full bg-transparent focus:bg-white focus:ring-1 focus:ring-inset focus:ring-indigo-400 outline-none py-1 h-6';
+
+interface RowActions {
+  toggle: (id: string, shiftKey: boolean) => void;
+  edit: (id: string, patch: Partial<FileItem>) => void;
+  keyDown: (e: React.KeyboardEvent<HTMLInputElement>, row: number, column: EditableColumn) => void;
+  focus: (id: string) => void;
+}
+
+interface RowProps {
+  f: FileItem;
+  index: number;
+  selected: boolean;
+  focused: boolean; // Fila que se muestra en la vista previa
+  columns: ColumnDef[];
+  config: GlobalConfig;
+  finalName: string;
+  planned?: PlannedItem;
+  duplicateLabel?: string;
+  duplicateTitle?: string;
+  nameIssues?: NameIssue[];
+  actions: RowActions;
+}
+
+const FileRow: React.FC<RowProps> = memo(({ f, index, selected, focused, columns, config, finalName, planned, duplicateLabel, duplicateTitle, nameIssues, actions }) => {
+  const editInput = (column: EditableColumn, placeholder: string, className: string) => (
+    <input
+      type="text"
+      data-cell={`${index}:${column}`}
+      value={f[EDIT_FIELDS[column]]}
+      placeholder={placeholder}
+      onChange={e => actions.edit(f.id, { [EDIT_FIELDS[column]]: e.target.value })}
+      onKeyDown={e => actions.keyDown(e, index, column)}
+      className={`${inputClass} ${className}`}
+    />
+  );
+
+  const cell = (column: ColumnDef) => {
+    switch (column.id) {
+      case 'select':
+        return (
+          <td key={column.id} className="border-r border-slate-200 px-1 py-0.5 text-center">
+            <input type="checkbox" checked={selected} onChange={() => {}} onClick={e => actions.toggle(f.id, e.shiftKey)} className="w-3 h-3 align-middle" />
+          </td>
+        );
+      case 'index':
+        return <td key={column.id} className="border-r border-slate-200 px-1 py-0.5 text-[8px] font-mono text-slate-400 text-center" title={f.excluded ? 'Excluido del lote' : undefined}>{index + 1}</td>;
+      case 'source':
+        return (
+          <td key={column.id} className="border-r border-slate-200 px-3 py-0.5 overflow-hidden">
+            <span className="text-[9px] font-bold text-slate-500 truncate block" title={f.sourceName}>{f.sourceName}</span>
+          </td>
+        );
+      case 'path':
+        return (
+          <td key={column.id} className="border-r border-slate-200 px-3 py-0.5 overflow-hidden">
+            <span className="text-[9px] font-mono text-slate-400 truncate block" title={f.relativePath || '/'}>{f.relativePath || '/'}</span>
+          </td>
+        );
+      case 'original':
+        return (
+          <td key={column.id} className="border-r border-slate-200 px-3 py-0.5 overflow-hidden">
+            <div className="flex items-center justify-between gap-1">
+              <span className="text-[10px] text-slate-600 truncate flex-1 font-medium" title={f.originalName}>{f.originalName}</span>
+              {duplicateLabel && <span className="flex-shrink-0 px-1 rounded bg-violet-100 text-violet-700 text-[8px] font-black" title={duplicateTitle}>{duplicateLabel}</span>}
+              {f.status !== 'pending' && (
+                <div className="flex-shrink-0" title={f.errorMessage}>
+                  {f.status === 'success' && <CheckCircle className="w-2.5 h-2.5 text-emerald-500" />}
+                  {f.status === 'error' && <XCircle className="w-2.5 h-2.5 text-rose-500" />}
+                  {f.status === 'skipped' && <SkipForward className="w-2.5 h-2.5 text-slate-400" />}
+                  {f.status === 'processing' && <RefreshCw className="w-2.5 h-2.5 text-indigo-500 animate-spin" />}
+                </div>
+              )}
+            </div>
+          </td>
+        );
+      case 'prefix':
+        return <td key={column.id} className="border-r border-slate-200 p-0">{editInput('prefix', config.prefix, 'text-center text-[9px] px-1')}</td>;
+      case 'base':
+        return <td key={column.id} className="border-r border-slate-200 p-0">{editInput('base', '', 'text-[10px] font-bold text-slate-800 px-2')}</td>;
+      case 'suffix':
+        return <td key={column.id} className="border-r border-slate-200 p-0">{editInput('suffix', config.suffix, 'text-center text-[9px] px-1')}</td>;
+      case 'ext':
+        return <td key={column.id} className="border-r border-slate-200 p-0">{editInput('ext', config.extension, 'text-center text-[9px] px-1')}</td>;
+      case 'template': {
+        const errors = f.template ? validateTemplate(f.template) : [];
+        return (
+          <td key={column.id} className="border-r border-slate-200 p-0">
+            <input type="text" value={f.template} placeholder={config.template} title={errors.join('\n') || undefined} onChange={e => actions.edit(f.id, { template: e.target.value })} className={`${inputClass} text-[9px] font-mono px-1 ${errors.length ? 'text-rose-600 bg-rose-50' : ''}`} />
+          </td>
+        );
+      }
+      case 'dest': {
+        const hasConflict = !!planned && planned.conflicts.length > 0;
+        const invalid = !!nameIssues?.some(i => i.severity === 'error');
+        const risky = !invalid && !!nameIssues?.length;
+        const hint = [
+          ...(nameIssues ?? []).map(i => `${i.severity === 'error' ? 'Error' : 'Aviso'}: ${i.message}`),
+          ...(planned ? [
+            planned.conflicts.includes('duplicate') ? 'Nombre repetido en el lote' : '',
+            planned.conflicts.includes('exists') ? 'Ya existe en el destino' : '',
+            planned.action === 'skip' ? `Se omitirá: ${planned.reason}` : planned.action === 'overwrite' ? 'Se sobrescribirá' : '',
+            planned.targetName !== finalName ? `Se guardará como ${planned.targetName}` : ''
+          ] : [])
+        ].filter(Boolean).join(' · ');
+        return (
+          <td key={column.id} className={`px-3 py-0.5 ${invalid ? 'bg-rose-50' : hasConflict || risky ? 'bg-amber-50' : 'bg-slate-50/50'}`} title={[planned?.targetDir ? `${planned.targetDir}/${planned.targetName}` : finalName, hint].filter(Boolean).join(' · ')}>
+            <div className="flex items-center gap-1">
+              {invalid && <XCircle className="w-2.5 h-2.5 text-rose-500 flex-shrink-0" />}
+              {!invalid && (hasConflict || risky) && <AlertTriangle className="w-2.5 h-2.5 text-amber-500 flex-shrink-0" />}
+              <span className={`text-[9px] font-mono font-black truncate block ${invalid ? 'text-rose-700' : hasConflict ? 'text-amber-700' : 'text-indigo-600'} ${planned?.action === 'skip' ? 'line-through opacity-60' : ''}`}>
+                {planned?.targetDir && <span className="font-medium text-slate-400">{planned.targetDir}/</span>}
+                {planned?.targetName ?? finalName}
+              </span>
+            </div>
+          </td>
+        );
+      }
+      default: {
+        const meta = column.id.slice(5) as MetadataColumn;
+        return (
+          <td key={column.id} className="border-r border-slate-200 px-2 py-0.5 text-[9px] text-slate-600 truncate" title={formatMetadata(f.metadata, meta)}>
+            {f.metadata ? formatMetadata(f.metadata, meta) : <span className="text-slate-300">…</span>}
+          </td>
+        );
+      }
+    }
+  };
+
+  return (
+    <tr
+      style={{ height: ROW_HEIGHT }}
+      onClick={() => actions.focus(f.id)}
+      onFocusCapture={() => actions.focus(f.id)}
+      className={`hover:bg-indigo-50/40 border-b border-slate-100 ${focused ? 'bg-indigo-100/70 shadow-[inset_3px_0_0_0_#6366f1]' : selected ? 'bg-indigo-50/60' : index % 2 === 0 ? '' : 'bg-slate-50/30'} ${f.excluded ? 'opacity-40' : ''}`}
+    >
+      {columns.map(cell)}
+    </tr>
+  );
+});
+
+interface FileTableProps {
+  files: FileItem[]; // Filas visibles, ya filtradas y ordenadas
+  selectedIds: Set<string>;
+  config: GlobalConfig;
+  metaColumns: MetadataColumn[];
+  plan: Map<string, PlannedItem>;
+  getFinalName: (f: FileItem) => string;
+  describeDuplicate: (f: FileItem) => { label: string; title: string } | null;
+  getNameIssues: (f: FileItem) => NameIssue[] | undefined;
+  onToggleRow: (id: string, shiftKey: boolean) => void;
+  onSelectAll: (selected: boolean) => void;
+  onEdit: (ids: string[], patch: Partial<FileItem>) => void;
+  focusedId: string | null;
+  onFocusRow: (id: string) => void;
+}
+
+/**
+ * Tabla de ficheros virtualizada: solo se pintan las filas visibles (más un margen), así que
+ * el coste de cada pulsación no depende del número de ficheros.
+ */
+const FileTable: React.FC<FileTableProps> = ({ files, selectedIds, config, metaColumns, plan, getFinalName, describeDuplicate, getNameIssues, onToggleRow, onSelectAll, onEdit, focusedId, onFocusRow }) => {
+  const [layout, setLayout] = useState<TableLayout>(loadTableLayout);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pendingFocus = useRef<string | null>(null);
+
+  useEffect(() => storeTableLayout(layout), [layout]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = useMemo(() => {
+    const hidden = new Set(layout.hidden);
+    const meta = metaColumns.map((c): ColumnDef => ({ id: `meta:${c}` as ColumnId, label: METADATA_COLUMNS[c], width: 112, hideable: false }));
+    return [...BASE_COLUMNS.filter(c => !hidden.has(c.id)), ...meta, DEST_COLUMN];
+  }, [layout.hidden, metaColumns]);
+  const widthOf = (c: ColumnDef) => layout.widths[c.id] ?? c.width;
+  const editable = useMemo(() => EDITABLE.filter(c => !layout.hidden.includes(c)), [layout.hidden]);
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(files.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  const tryFocus = () => {
+    if (!pendingFocus.current) return;
+    const input = scrollRef.current?.querySelector<HTMLInputElement>(`[data-cell="${pendingFocus.current}"]`);
+    if (!input) return;
+    pendingFocus.current = null;
+    input.focus();
+    input.select();
+  };
+  useLayoutEffect(tryFocus);
+
+  // Desplaza lo justo para que la fila quede a la vista bajo la cabecera fija
+  const scrollToRow = (row: number) => {
+    const el = scrollRef.current;
+    if (!el || row < 0 || row >= files.length) return false;
+    const header = el.querySelector('thead')?.clientHeight ?? 0;
+    const top = row * ROW_HEIGHT;
+    if (top < el.scrollTop) el.scrollTop = top;
+    else if (top + ROW_HEIGHT > el.scrollTop + el.clientHeight - header) el.scrollTop = top + ROW_HEIGHT - el.clientHeight + header;
+    return true;
+  };
+
+  // La fila enfocada desde la vista previa se trae a la vista sin quitar el foco del panel
+  useEffect(() => {
+    if (focusedId) scrollToRow(files.findIndex(f => f.id === focusedId));
+  }, [focusedId]);
+
+  // Trae la fila a la vista y enfoca la celda al pintarse
+  const focusCell = (row: number, column: EditableColumn) => {
+    if (!scrollToRow(row)) return false;
+    pendingFocus.current = `${row}:${column}`;
+    tryFocus();
+    return true;
+  };
+
+  // Como en una hoja de cálculo: con varias filas seleccionadas se copia la primera en el resto;
+  // si no, la celda toma el valor de la de arriba
+  const fillDown = (row: number, column: EditableColumn) => {
+    const field = EDIT_FIELDS[column];
+    const current = files[row];
+    const selectedRows = files.filter(f => selectedIds.has(f.id));
+    if (selectedIds.has(current.id) && selectedRows.length > 1) {
+      onEdit(selectedRows.slice(1).map(f => f.id), { [field]: selectedRows[0][field] });
+    } else if (row > 0) {
+      onEdit([current.id], { [field]: files[row - 1][field] });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: number, column: EditableColumn) => {
+    const col = editable.indexOf(column);
+    const input = e.currentTarget;
+    const move = (r: number, c: number) => {
+      if (focusCell(r, editable[c])) e.preventDefault();
+    };
+    switch (e.key) {
+      case 'ArrowUp': return move(row - 1, col);
+      case 'ArrowDown': return move(row + 1, col);
+      case 'Enter': return move(row + (e.shiftKey ? -1 : 1), col);
+      case 'Tab': {
+        const next = col + (e.shiftKey ? -1 : 1);
+        if (next < 0) return move(row - 1, editable.length - 1);
+        if (next >= editable.length) return move(row + 1, 0);
+        return move(row, next);
+      }
+      case 'ArrowLeft':
+        if (input.selectionStart === 0 && input.selectionEnd === 0 && col > 0) move(row, col - 1);
+        return;
+      case 'ArrowRight':
+        if (input.selectionStart === input.value.length && col < editable.length - 1) move(row, col + 1);
+        return;
+      case 'd':
+      case 'D':
+        if (e.ctrlKey || e.metaKey) {
+          e.preventDefault();
+          fillDown(row, column);
+        }
+        return;
+    }
+  };
+
+  // Las filas memorizadas reciben siempre el mismo objeto; las funciones leen los props actuales
+  const latest = useRef({ onToggleRow, onEdit, handleKeyDown, onFocusRow });
+  latest.current = { onToggleRow, onEdit, handleKeyDown, onFocusRow };
+  const actions = useMemo<RowActions>(() => ({
+    toggle: (id, shiftKey) => latest.current.onToggleRow(id, shiftKey),
+    edit: (id, patch) => latest.current.onEdit([id], patch),
+    keyDown: (e, row, column) => latest.current.handleKeyDown(e, row, column),
+    focus: id => latest.current.onFocusRow(id)
+  }), []);
+
+  const startResize = (e: React.MouseEvent, column: ColumnDef) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widthOf(column);
+    const onMove = (ev: MouseEvent) => {
+      const width = Math.max(MIN_WIDTH, startWidth + ev.clientX - startX);
+      setLayout(prev => ({ ...prev, widths: { ...prev.widths, [column.id]: width } }));
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const toggleColumn = (id: ColumnId) => {
+    setLayout(prev => ({ ...prev, hidden: prev.hidden.includes(id) ? prev.hidden.filter(c => c !== id) : [...prev.hidden, id] }));
+  };
+
+  const selectedCount = useMemo(() => files.filter(f => selectedIds.has(f.id)).length, [files, selectedIds]);
+  const totalWidth = columns.reduce((sum, c) => sum + widthOf(c), 0);
+
+  return (
+    <div className="flex-1 relative min-h-0 min-w-0 flex flex-col">
+      {showColumnMenu && (
+        <div className="absolute left-8 top-6 w-44 bg-white border border-slate-200 rounded-lg shadow-xl z-30 py-1">
+          <div className="px-3 pb-1 text-[8px] font-black text-slate-400 uppercase">Columnas</div>
+          {BASE_COLUMNS.filter(c => c.hideable).map(c => (
+            <label key={c.id} className="flex items-center gap-2 px-3 py-0.5 text-[10px] text-slate-600 cursor-pointer hover:bg-slate-50">
+              <input type="checkbox" checked={!layout.hidden.includes(c.id)} onChange={() => toggleColumn(c.id)} className="w-3 h-3" /> {c.label === 'P' ? 'Prefijo' : c.label === 'S' ? 'Sufijo' : c.label}
+            </label>
+          ))}
+          <button onClick={() => setLayout(prev => ({ ...prev, widths: {} }))} className="w-full text-left px-3 pt-1 mt-1 text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 border-t border-slate-100">Restablecer anchos</button>
+          <div className="px-3 pt-1 text-[9px] text-slate-400 leading-tight">Flechas, Enter y Tab mueven entre P / Base / S / Ext. Ctrl+D rellena hacia abajo.</div>
+        </div>
+      )}
+      <div ref={scrollRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className="flex-1 overflow-auto custom-scrollbar bg-slate-200">
+        <table className="text-left border-collapse table-fixed" style={{ width: '100%', minWidth: totalWidth }}>
+          <colgroup>
+            {columns.map(c => <col key={c.id} style={{ width: widthOf(c) }} />)}
+          </colgroup>
+          <thead className="sticky top-0 bg-slate-50 shadow-sm z-10">
+            <tr className="border-b border-slate-300">
+              {columns.map(c => (
+                <th key={c.id} className={`relative border-r border-slate-200 px-2 py-1 text-[9px] font-black text-slate-500 uppercase ${c.center ? 'text-center' : ''}`}>
+                  {c.id === 'select' ? (
+                    <input
+                      type="checkbox"
+                      checked={files.length > 0 && selectedCount === files.length}
+                      ref={el => { if (el) el.indeterminate = selectedCount > 0 && selectedCount < files.length; }}
+                      onChange={e => onSelectAll(e.target.checked)}
+                      title="Seleccionar todos los visibles"
+                      className="w-3 h-3 align-middle"
+                    />
+                  ) : c.id === 'index' ? (
+                    <button onClick={() => setShowColumnMenu(v => !v)} title="Mostrar u ocultar columnas" className="text-slate-400 hover:text-indigo-600 align-middle"><Columns3 className="w-3 h-3" /></button>
+                  ) : c.label}
+                  {c.id !== 'select' && <div onMouseDown={e => startResize(e, c)} className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-indigo-300" />}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white">
+            {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+            {files.slice(start, end).map((f, i) => {
+              const duplicate = describeDuplicate(f);
+              return (
+                <FileRow
+                  key={f.id}
+                  f={f}
+                  index={start + i}
+                  selected={selectedIds.has(f.id)}
+                  focused={f.id === focusedId}
+                  columns={columns}
+                  config={config}
+                  finalName={getFinalName(f)}
+                  planned={plan.get(f.id)}
+                  duplicateLabel={duplicate?.label}
+                  duplicateTitle={duplicate?.title}
+                  nameIssues={getNameIssues(f)}
+                  actions={actions}
+                />
+              );
+            })}
+            {end < files.length && <tr style={{ height: (files.length - end) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default FileTable;
@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderOpen, ChevronDown, Clock, X } from 'lucide-react';
+import { RecentFolder } from '../types';
+import { listRecentFolders, removeRecentFolder } from '../utils/recentFolders';
+
+interface FolderPickerProps {
+  role: RecentFolder['role'];
+  label: string;
+  current: { name: string } | null; // Handle elegido o, sin File System Access, solo el nombre de la carpeta
+  disabled?: boolean;
+  onPick: () => void;
+  onSelectRecent: (handle: FileSystemDirectoryHandle) => void;
+}
+
+const FolderPicker: React.FC<FolderPickerProps> = ({ role, label, current, disabled, onPick, onSelectRecent }) => {
+  const [open, setOpen] = useState(false);
+  const [recent, setRecent] = useState<RecentFolder[]>([]);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    listRecentFolders(role).then(setRecent).catch(() => setRecent([]));
+    const close = (e: MouseEvent) => { if (!ref.current?.contains(e.target as Node)) setOpen(false); };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open, role]);
+
+  const forget = async (id: string) => {
+    await removeRecentFolder(id);
+    setRecent(prev => prev.filter(r => r.id !== id));
+  };
+
+  return (
+    <div ref={ref} className={`relative flex ${disabled ? 'opacity-40 pointer-events-none' : ''}`}>
+      <button onClick={onPick} className="flex items-center gap-2 px-3 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-l-lg text-xs font-bold border border-slate-200 transition-colors">
+        <FolderOpen className="w-3 h-3" /> {label}: {current?.name || '---'}
+      </button>
+      <button onClick={() => setOpen(o => !o)} title="Carpetas recientes" className="px-1 bg-slate-100 hover:bg-slate-200 text-slate-500 rounded-r-lg border border-l-0 border-slate-200 transition-colors">
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-56 bg-white border border-slate-200 rounded-lg shadow-xl z-30 py-1">
+          <div className="px-3 py-1 text-[9px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1"><Clock className="w-2.5 h-2.5" /> Recientes</div>
+          {recent.length === 0 && <div className="px-3 py-2 text-[10px] text-slate-400 italic">Sin carpetas recientes</div>}
+          {recent.map(r => (
+            <div key={r.id} className="flex items-center hover:bg-indigo-50 group">
+              <button onClick={() => { setOpen(false); onSelectRecent(r.handle); }} className="flex-1 text-left px-3 py-1 min-w-0">
+                <div className="text-[11px] font-bold text-slate-700 truncate">{r.name}</div>
+                <div className="text-[9px] text-slate-400">{new Date(r.lastUsed).toLocaleString()}</div>
+              </button>
+              <button onClick={() => forget(r.id)} title="Quitar de la lista" className="px-2 text-slate-300 hover:text-rose-600 opacity-0 group-hover:opacity-100"><X className="w-3 h-3" /></button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FolderPicker;
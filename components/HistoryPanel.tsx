@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { History, Undo2, Download, Trash2, CheckCircle, XCircle, SkipForward, ChevronDown, ChevronRight } from 'lucide-react';
+import { BatchJournal } from '../types';
+import { listJournals, undoJournal, deleteJournal, journalsToCsv, journalsToJson } from '../utils/journal';
+import { downloadBlob } from '../utils/fileUtils';
+
+const MODE_NAMES: Record<BatchJournal['mode'], string> = { copy: 'Copia', move: 'Movimiento', rename: 'Renombrado', zip: 'ZIP' };
+
+interface HistoryPanelProps {
+  onClose: () => void;
+  onUndone?: (journal: BatchJournal) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onClose, onUndone }) => {
+  const [journals, setJournals] = useState<BatchJournal[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = async () => {
+    try {
+      setJournals(await listJournals());
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const undo = async (journal: BatchJournal) => {
+    setError(null);
+    setBusyId(journal.id);
+    try {
+      const updated = await undoJournal(journal);
+      onUndone?.(updated);
+      await reload();
+    } catch (e: any) {
+      setError(e.message);
+    }
+    setBusyId(null);
+  };
+
+  const remove = async (journal: BatchJournal) => {
+    setError(null);
+    try {
+      await deleteJournal(journal.id);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      await reload();
+    }
+  };
+
+  const exportAs = (list: BatchJournal[], format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    if (format === 'csv') downloadBlob(journalsToCsv(list), `historial-${stamp}.csv`, 'text/csv;charset=utf-8');
+    else downloadBlob(journalsToJson(list), `historial-${stamp}.json`, 'application/json');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[85vh] p-6 space-y-4 border border-slate-200 flex flex-col">
+        <div className="flex items-center justify-between border-b pb-2">
+          <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><History className="w-4 h-4 text-indigo-600" /> Historial de Lotes</h3>
+          <div className="flex gap-1">
+            <button disabled={journals.length === 0} onClick={() => exportAs(journals, 'csv')} className="flex items-center gap-1 px-2 py-1 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 rounded text-[10px] font-bold"><Download className="w-3 h-3" /> CSV</button>
+            <button disabled={journals.length === 0} onClick={() => exportAs(journals, 'json')} className="flex items-center gap-1 px-2 py-1 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 rounded text-[10px] font-bold"><Download className="w-3 h-3" /> JSON</button>
+          </div>
+        </div>
+
+        {error && <div className="text-[11px] text-rose-700 bg-rose-50 p-2 rounded border border-rose-200">{error}</div>}
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+          {journals.length === 0 && <p className="text-[11px] text-slate-400 italic text-center py-8">Todavía no se ha ejecutado ningún lote.</p>}
+          {journals.map(j => {
+            const ok = j.entries.filter(e => e.outcome === 'success').length;
+            const err = j.entries.filter(e => e.outcome === 'error').length;
+            const skip = j.entries.filter(e => e.outcome === 'skipped').length;
+            const undoable = j.entries.some(e => e.outcome === 'success' && !e.undone);
+            const isOpen = expanded === j.id;
+            return (
+              <div key={j.id} className="border border-slate-200 rounded-lg">
+                <div className="flex items-center gap-2 px-3 py-2 bg-slate-50">
+                  <button onClick={() => setExpanded(isOpen ? null : j.id)} className="text-slate-400">{isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}</button>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[11px] font-bold text-slate-700">{new Date(j.startedAt).toLocaleString()} · {MODE_NAMES[j.mode]}</div>
+                    <div className="text-[9px] text-slate-400 font-mono truncate">{j.sourceName}{j.destName ? ` → ${j.destName}` : ''}</div>
+                  </div>
+                  <span className="text-[8px] font-black bg-emerald-50 text-emerald-700 px-1.5 py-0.5 rounded border border-emerald-200">OK {ok}</span>
+                  <span className="text-[8px] font-black bg-rose-50 text-rose-700 px-1.5 py-0.5 rounded border border-rose-200">ERR {err}</span>
+                  <span className="text-[8px] font-black bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded border border-slate-200">OMIT {skip}</span>
+                  {!j.finishedAt && <span title="La pestaña se cerró o falló durante el lote; las entradas guardadas se pueden deshacer" className="text-[8px] font-black bg-rose-50 text-rose-700 px-1.5 py-0.5 rounded border border-rose-200 uppercase">Interrumpido</span>}
+                  {j.undoneAt && <span className="text-[8px] font-black bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded border border-amber-200 uppercase">Deshecho</span>}
+                  <button disabled={!undoable || busyId !== null} onClick={() => undo(j)} className="flex items-center gap-1 px-2 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 text-white rounded text-[10px] font-bold"><Undo2 className="w-3 h-3" /> {busyId === j.id ? '...' : 'Deshacer'}</button>
+                  <button onClick={() => exportAs([j], 'csv')} title="Exportar CSV" className="p-1 text-slate-400 hover:text-indigo-600"><Download className="w-3 h-3" /></button>
+                  <button disabled={busyId !== null} onClick={() => remove(j)} title="Borrar del historial" className="p-1 text-slate-400 hover:text-rose-600"><Trash2 className="w-3 h-3" /></button>
+                </div>
+                {isOpen && (
+                  <div className="max-h-60 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+                    {j.entries.map((e, i) => (
+                      <div key={i} className="flex items-center gap-2 px-3 py-1 text-[10px]">
+                        {e.outcome === 'success' && <CheckCircle className="w-2.5 h-2.5 text-emerald-500 flex-shrink-0" />}
+                        {e.outcome === 'error' && <XCircle className="w-2.5 h-2.5 text-rose-500 flex-shrink-0" />}
+                        {e.outcome === 'skipped' && <SkipForward className="w-2.5 h-2.5 text-slate-400 flex-shrink-0" />}
+                        <span className={`truncate flex-1 font-mono ${e.undone ? 'line-through text-slate-400' : 'text-slate-600'}`}>{e.sourcePath ? `${e.sourcePath}/` : ''}{e.sourceName}</span>
+                        <span className="text-slate-300">→</span>
+                        <span className={`truncate flex-1 font-mono font-bold ${e.undone ? 'line-through text-slate-400' : 'text-indigo-600'}`}>{e.targetPath ? `${e.targetPath}/` : ''}{e.targetName}</span>
+                        {(e.errorMessage || e.undoError) && <span className="truncate max-w-[30%] text-rose-600" title={e.errorMessage || e.undoError}>{e.errorMessage || e.undoError}</span>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <button onClick={onClose} className="w-full py-2 bg-slate-100 rounded-lg font-bold text-xs hover:bg-slate-200 transition-colors">CERRAR</button>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
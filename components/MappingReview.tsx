@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { FileText, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { FileItem } from '../types';
+import { parseDelimited } from '../utils/csv';
+import { MappingColumns, MatchMode, MatchStatus, guessColumns, mappingToFields, matchMappingRows } from '../utils/mappingImport';
+
+const STATUS_STYLES: Record<MatchStatus, { label: string; className: string }> = {
+  matched: { label: 'Emparejadas', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  ambiguous: { label: 'Ambiguas', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  unmatched: { label: 'Sin pareja', className: 'bg-rose-50 text-rose-700 border-rose-200' }
+};
+
+const selectClass = 'bg-white border border-slate-300 rounded text-[10px] font-bold text-slate-700 px-1 py-0.5 outline-none focus:ring-1 focus:ring-indigo-500';
+
+interface MappingReviewProps {
+  text: string;
+  files: FileItem[];
+  onApply: (updates: Map<string, Partial<FileItem>>) => void;
+  onClose: () => void;
+}
+
+const MappingReview: React.FC<MappingReviewProps> = ({ text, files, onApply, onClose }) => {
+  const table = useMemo(() => parseDelimited(text), [text]);
+  const guessed = useMemo(() => guessColumns(table[0] ?? []), [table]);
+  const [hasHeader, setHasHeader] = useState(guessed.hasHeader);
+  const [columns, setColumns] = useState<MappingColumns>(guessed.columns);
+  const [mode, setMode] = useState<MatchMode>('exact');
+  // Elección manual para las filas ambiguas: línea -> id del fichero
+  const [choices, setChoices] = useState<Record<number, string>>({});
+
+  const width = Math.max(0, ...table.map(r => r.length));
+  const header = hasHeader ? table[0] : Array.from({ length: width }, (_, i) => `Columna ${i + 1}`);
+  const rows = useMemo(() => table.slice(hasHeader ? 1 : 0).map((cells, i) => ({ line: i + (hasHeader ? 2 : 1), cells })), [table, hasHeader]);
+  const matches = useMemo(() => matchMappingRows(rows, columns, files, mode), [rows, columns, files, mode]);
+  const byId = useMemo(() => new Map(files.map(f => [f.id, f])), [files]);
+
+  const resolvedId = (m: typeof matches[number]) => m.status === 'matched' ? m.candidates[0] : m.status === 'ambiguous' ? choices[m.row.line] : undefined;
+  const counts = { matched: 0, ambiguous: 0, unmatched: 0 };
+  matches.forEach(m => counts[m.status]++);
+  const applicable = matches.filter(m => resolvedId(m) && m.target);
+
+  const apply = () => {
+    const updates = new Map<string, Partial<FileItem>>();
+    applicable.forEach(m => {
+      const file = byId.get(resolvedId(m)!)!;
+      updates.set(file.id, mappingToFields(m, columns, header, file));
+    });
+    onApply(updates);
+  };
+
+  const columnSelect = (field: keyof MappingColumns, optional: boolean) => (
+    <select value={columns[field] ?? ''} onChange={e => setColumns(prev => ({ ...prev, [field]: e.target.value === '' ? undefined : parseInt(e.target.value) }))} className={selectClass}>
+      {optional && <option value="">—</option>}
+      {header.map((h, i) => <option key={i} value={i}>{h || `Columna ${i + 1}`}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[85vh] p-6 space-y-3 border border-slate-200 flex flex-col">
+        <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest border-b pb-2 flex items-center gap-2"><FileText className="w-4 h-4 text-indigo-600" /> Revisar Mapeo</h3>
+
+        {width < 2 ? (
+          <p className="text-[11px] text-rose-700 bg-rose-50 p-3 rounded border border-rose-200">Se necesitan al menos dos columnas: nombre original y nombre nuevo.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-[10px] font-bold text-slate-500">
+              <label className="flex items-center gap-1"><input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} className="w-3 h-3" /> Primera fila es cabecera</label>
+              <span>Ruta: {columnSelect('path', true)}</span>
+              <span>Original: {columnSelect('original', false)}</span>
+              <span>Nuevo: {columnSelect('target', false)}</span>
+              <span>Prefijo: {columnSelect('prefix', true)}</span>
+              <span>Sufijo: {columnSelect('suffix', true)}</span>
+              <span>Ext: {columnSelect('extension', true)}</span>
+              <span>Coincidencia:
+                <select value={mode} onChange={e => setMode(e.target.value as MatchMode)} className={`${selectClass} ml-1`}>
+                  <option value="exact">Nombre exacto</option>
+                  <option value="basename">Sin extensión</option>
+                  <option value="fuzzy">Aproximada</option>
+                </select>
+              </span>
+            </div>
+
+            <div className="flex gap-2">
+              {(Object.keys(STATUS_STYLES) as MatchStatus[]).map(s => (
+                <span key={s} className={`text-[9px] font-black px-2 py-0.5 rounded border uppercase ${STATUS_STYLES[s].className}`}>{STATUS_STYLES[s].label}: {counts[s]}</span>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-auto custom-scrollbar border border-slate-200 rounded">
+              <table className="w-full text-left text-[10px]">
+                <thead className="sticky top-0 bg-slate-50">
+                  <tr className="text-[9px] font-black text-slate-500 uppercase">
+                    <th className="px-2 py-1 w-10">Línea</th>
+                    <th className="px-2 py-1 w-6"></th>
+                    <th className="px-2 py-1">Original</th>
+                    <th className="px-2 py-1">Nuevo</th>
+                    <th className="px-2 py-1">Fichero</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {matches.map(m => (
+                    <tr key={m.row.line} className={m.status === 'unmatched' ? 'bg-rose-50/40' : m.status === 'ambiguous' ? 'bg-amber-50/40' : ''}>
+                      <td className="px-2 py-0.5 font-mono text-slate-400">{m.row.line}</td>
+                      <td className="px-2 py-0.5">
+                        {m.status === 'matched' && <CheckCircle className="w-3 h-3 text-emerald-500" />}
+                        {m.status === 'ambiguous' && <AlertTriangle className="w-3 h-3 text-amber-500" />}
+                        {m.status === 'unmatched' && <XCircle className="w-3 h-3 text-rose-500" />}
+                      </td>
+                      <td className="px-2 py-0.5 font-mono truncate max-w-[200px]">{m.original}</td>
+                      <td className="px-2 py-0.5 font-mono font-bold text-indigo-600 truncate max-w-[200px]">{m.target}</td>
+                      <td className="px-2 py-0.5">
+                        {m.status === 'matched' && <span className="font-mono text-slate-500">{byId.get(m.candidates[0])?.relativePath ? `${byId.get(m.candidates[0])!.relativePath}/` : ''}{byId.get(m.candidates[0])?.originalName}</span>}
+                        {m.status === 'unmatched' && <span className="text-rose-600">{m.reason}</span>}
+                        {m.status === 'ambiguous' && (
+                          <select value={choices[m.row.line] ?? ''} onChange={e => setChoices(prev => ({ ...prev, [m.row.line]: e.target.value }))} className={selectClass} title={m.reason}>
+                            <option value="">{m.reason} — elegir…</option>
+                            {m.candidates.map(id => {
+                              const f = byId.get(id)!;
+                              return <option key={id} value={id}>{f.relativePath ? `${f.relativePath}/` : ''}{f.originalName}</option>;
+                            })}
+                          </select>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={onClose} className="flex-1 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold transition-all">Cancelar</button>
+          <button disabled={applicable.length === 0} onClick={apply} className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 text-white rounded-lg text-xs font-bold shadow-lg shadow-indigo-200 transition-all">Aplicar {applicable.length} nombres</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MappingReview;
@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, Save, Trash2, Download, Upload } from 'lucide-react';
+import { FilterState, GlobalConfig, Preset, ScanOptions } from '../types';
+import { PRESET_SCHEMA_VERSION, exportPresets, importPresets, loadPresets, storePresets } from '../utils/presets';
+import { downloadBlob } from '../utils/fileUtils';
+
+interface PresetManagerProps {
+  config: GlobalConfig;
+  filters: FilterState;
+  scanOptions: ScanOptions;
+  onApply: (preset: Preset) => void;
+}
+
+const PresetManager: React.FC<PresetManagerProps> = ({ config, filters, scanOptions, onApply }) => {
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
+  const [selectedId, setSelectedId] = useState('');
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ error: boolean; text: string } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const selected = presets.find(p => p.id === selectedId);
+
+  const persist = (next: Preset[]) => {
+    setPresets(next);
+    storePresets(next);
+  };
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const now = Date.now();
+    const existing = presets.find(p => p.name === trimmed);
+    const preset: Preset = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name: trimmed,
+      version: PRESET_SCHEMA_VERSION,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      config, filters, scanOptions
+    };
+    persist(existing ? presets.map(p => p.id === existing.id ? preset : p) : [...presets, preset]);
+    setSelectedId(preset.id);
+    setMessage({ error: false, text: existing ? `"${trimmed}" actualizado` : `"${trimmed}" guardado` });
+  };
+
+  const remove = () => {
+    if (!selected) return;
+    persist(presets.filter(p => p.id !== selected.id));
+    setSelectedId('');
+  };
+
+  const exportSelection = () => {
+    const list = selected ? [selected] : presets;
+    const filename = selected ? `preset-${selected.name.replace(/[^\w-]+/g, '_')}.json` : 'presets-ga-archivos.json';
+    downloadBlob(exportPresets(list), filename, 'application/json');
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = importPresets(await file.text());
+      const names = new Set(presets.map(p => p.name));
+      // Un preset importado nunca pisa uno local: se le asigna id nuevo y, si hace falta, otro nombre
+      const renamed = imported.map(p => {
+        let candidate = p.name;
+        for (let n = 2; names.has(candidate); n++) candidate = `${p.name} (${n})`;
+        names.add(candidate);
+        return { ...p, id: crypto.randomUUID(), name: candidate };
+      });
+      persist([...presets, ...renamed]);
+      setMessage({ error: false, text: `${renamed.length} preset(s) importados` });
+    } catch (e: any) {
+      setMessage({ error: true, text: e.message });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        <select value={selectedId} onChange={e => { setSelectedId(e.target.value); setName(presets.find(p => p.id === e.target.value)?.name ?? ''); }} className="flex-1 min-w-0 px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500">
+          <option value="">— Presets guardados ({presets.length}) —</option>
+          {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <button disabled={!selected} onClick={() => selected && onApply(selected)} title="Cargar" className="px-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 text-white rounded text-[10px] font-bold"><Bookmark className="w-3 h-3" /></button>
+        <button disabled={!selected} onClick={remove} title="Borrar" className="px-1.5 text-slate-400 hover:text-rose-600 disabled:opacity-30"><Trash2 className="w-3 h-3" /></button>
+      </div>
+      <div className="flex gap-1">
+        <input type="text" value={name} onChange={e => setName(e.target.value)} onKeyDown={e => e.key === 'Enter' && save()} className="flex-1 min-w-0 px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500" placeholder="Nombre del preset" />
+        <button disabled={!name.trim()} onClick={save} title="Guardar configuración y filtros actuales" className="px-2 bg-slate-800 hover:bg-slate-900 disabled:opacity-30 text-white rounded"><Save className="w-3 h-3" /></button>
+      </div>
+      <div className="grid grid-cols-2 gap-1">
+        <button disabled={presets.length === 0} onClick={exportSelection} className="flex items-center justify-center gap-1 py-1 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 rounded text-[10px] font-bold"><Download className="w-3 h-3" /> {selected ? 'Exportar' : 'Exportar todos'}</button>
+        <button onClick={() => fileInput.current?.click()} className="flex items-center justify-center gap-1 py-1 bg-slate-100 hover:bg-slate-200 rounded text-[10px] font-bold"><Upload className="w-3 h-3" /> Importar</button>
+      </div>
+      <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={e => { const file = e.target.files?.[0]; if (file) importFile(file); e.target.value = ''; }} />
+      {message && <p className={`text-[9px] whitespace-pre-line ${message.error ? 'text-rose-600' : 'text-emerald-600'}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default PresetManager;
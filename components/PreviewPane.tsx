@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, ChevronUp, ChevronDown, X } from 'lucide-react';
+import { FileItem } from '../types';
+import { formatBytes, previewKind } from '../utils/fileUtils';
+import { readFile } from '../utils/fileSource';
+
+const TEXT_PREVIEW_BYTES = 64 * 1024;
+const WIDTH_KEY = 'ga-archivos.preview-width';
+const MIN_WIDTH = 220;
+const MAX_WIDTH = 900;
+
+// `id` es la fila a la que pertenece, para no mostrar la anterior mientras carga la nueva
+type PreviewContent = { id: string } & (
+  | { state: 'url'; url: string }
+  | { state: 'text'; text: string; truncated: boolean }
+  | { state: 'error'; message: string }
+);
+
+const loadWidth = () => {
+  const stored = Number(localStorage.getItem(WIDTH_KEY));
+  return stored >= MIN_WIDTH && stored <= MAX_WIDTH ? stored : 360;
+};
+
+interface PreviewPaneProps {
+  file: FileItem | null; // Fila enfocada en la tabla
+  finalName: string;
+  hasPrevious: boolean;
+  hasNext: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  onEdit: (patch: Partial<FileItem>) => void;
+  onClose: () => void;
+}
+
+const PreviewPane: React.FC<PreviewPaneProps> = ({ file, finalName, hasPrevious, hasNext, onPrevious, onNext, onEdit, onClose }) => {
+  const [width, setWidth] = useState(loadWidth);
+  const [content, setContent] = useState<PreviewContent | null>(null);
+  const kind = file ? previewKind(file.originalName, file.type) : null;
+
+  useEffect(() => localStorage.setItem(WIDTH_KEY, String(width)), [width]);
+
+  // Cada URL de objeto se revoca al cambiar de fichero o cerrar el panel
+  useEffect(() => {
+    if (!file || !kind) return;
+    let cancelled = false;
+    let url: string | null = null;
+    const id = file.id;
+    readFile(file).then(async data => {
+      if (cancelled) return;
+      if (kind === 'text') {
+        const text = await data.slice(0, TEXT_PREVIEW_BYTES).text();
+        if (!cancelled) setContent({ id, state: 'text', text, truncated: data.size > TEXT_PREVIEW_BYTES });
+        return;
+      }
+      url = URL.createObjectURL(data);
+      setContent({ id, state: 'url', url });
+    }).catch((e: any) => {
+      if (!cancelled) setContent({ id, state: 'error', message: e?.message ?? String(e) });
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file?.id, file?.handle, file?.file, kind]);
+
+  const startResize = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const startX = e.clientX;
+    const startWidth = width;
+    const onMove = (ev: MouseEvent) => setWidth(Math.min(MAX_WIDTH, Math.max(MIN_WIDTH, startWidth - (ev.clientX - startX))));
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  // Enter y las flechas pasan de fichero sin salir del campo, como en la tabla
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const previous = e.key === 'ArrowUp' || (e.key === 'Enter' && e.shiftKey);
+    const next = e.key === 'ArrowDown' || (e.key === 'Enter' && !e.shiftKey);
+    if (previous && hasPrevious) {
+      e.preventDefault();
+      onPrevious();
+    } else if (next && hasNext) {
+      e.preventDefault();
+      onNext();
+    }
+  };
+
+  const unavailable = (text: string) => <p className="text-[11px] text-slate-400 italic text-center px-4">{text}</p>;
+
+  const body = () => {
+    if (!file) return unavailable('Haz clic en una fila para verla aquí.');
+    if (!kind) return unavailable('Este tipo de fichero no se puede previsualizar.');
+    if (content?.id !== file.id) return unavailable('Cargando...');
+    if (content.state === 'error') return <p className="text-[11px] text-rose-600 text-center px-4">{content.message}</p>;
+    if (content.state === 'text') {
+      return (
+        <div className="w-full h-full flex flex-col">
+          <pre className="flex-1 overflow-auto custom-scrollbar p-2 text-[10px] font-mono text-slate-700 whitespace-pre-wrap break-all">{content.text}</pre>
+          {content.truncated && <div className="px-2 py-0.5 text-[9px] text-slate-400 border-t border-slate-100">Primeros {formatBytes(TEXT_PREVIEW_BYTES)} de {formatBytes(file.size)}</div>}
+        </div>
+      );
+    }
+    const onError = () => setContent({ id: file.id, state: 'error', message: 'El navegador no puede mostrar este fichero.' });
+    switch (kind) {
+      case 'image': return <img src={content.url} alt={file.originalName} onError={onError} className="max-w-full max-h-full object-contain" />;
+      case 'pdf': return <iframe src={`${content.url}#page=1&toolbar=0&navpanes=0&view=FitH`} title={file.originalName} className="w-full h-full border-0" />;
+      case 'audio': return <audio src={content.url} controls onError={onError} className="w-full px-2" />;
+      case 'video': return <video src={content.url} controls onError={onError} className="max-w-full max-h-full" />;
+    }
+  };
+
+  return (
+    <aside style={{ width }} className="relative flex-shrink-0 border-l border-slate-300 bg-white flex flex-col min-h-0">
+      <div onMouseDown={startResize} title="Arrastra para cambiar el ancho" className="absolute left-0 top-0 h-full w-1.5 -ml-0.5 cursor-col-resize hover:bg-indigo-300 z-10" />
+      <div className="px-3 py-1 border-b border-slate-200 bg-slate-50 flex items-center gap-1">
+        <Eye className="w-3 h-3 text-indigo-600" />
+        <span className="text-[9px] font-black text-slate-500 uppercase flex-1">Vista previa</span>
+        <button onClick={onPrevious} disabled={!hasPrevious} title="Anterior (↑ o Mayús+Enter)" className="p-0.5 text-slate-500 hover:text-indigo-600 disabled:opacity-30"><ChevronUp className="w-3 h-3" /></button>
+        <button onClick={onNext} disabled={!hasNext} title="Siguiente (↓ o Enter)" className="p-0.5 text-slate-500 hover:text-indigo-600 disabled:opacity-30"><ChevronDown className="w-3 h-3" /></button>
+        <button onClick={onClose} title="Cerrar vista previa" className="p-0.5 text-slate-400 hover:text-slate-700"><X className="w-3 h-3" /></button>
+      </div>
+      <div className="flex-1 min-h-0 flex items-center justify-center bg-slate-100 overflow-hidden">{body()}</div>
+      {file && (
+        <div className="p-2 border-t border-slate-200 space-y-1">
+          <div className="text-[9px] font-mono text-slate-400 truncate" title={file.originalName}>{file.relativePath ? `${file.relativePath}/` : ''}{file.originalName} · {formatBytes(file.size)}</div>
+          <input
+            type="text"
+            value={file.customBaseName}
+            onChange={e => onEdit({ customBaseName: e.target.value })}
+            onKeyDown={handleKeyDown}
+            className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs font-bold outline-none focus:ring-1 focus:ring-indigo-500"
+            placeholder="Base nuevo"
+          />
+          <div className="text-[9px] font-mono font-black text-indigo-600 truncate" title={finalName}>{finalName}</div>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default PreviewPane;
@@ -0,0 +1,134 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, Trash2, Plus } from 'lucide-react';
+import { CaseMode, RenameRule, RenameRuleType } from '../types';
+import { RULE_LABELS, createRule, validateRule } from '../utils/renameRules';
+
+const CASE_LABELS: Record<CaseMode, string> = {
+  lower: 'minúsculas',
+  upper: 'MAYÚSCULAS',
+  title: 'Tipo Título',
+  sentence: 'Tipo frase',
+  camel: 'camelCase',
+  snake: 'snake_case',
+  kebab: 'kebab-case'
+};
+
+const inputClass = 'w-full px-1.5 py-0.5 bg-slate-50 border border-slate-200 rounded text-[10px] outline-none focus:ring-1 focus:ring-indigo-500';
+
+interface RuleEditorProps {
+  rules: RenameRule[];
+  onChange: (rules: RenameRule[]) => void;
+}
+
+const RuleEditor: React.FC<RuleEditorProps> = ({ rules, onChange }) => {
+  const update = (id: string, patch: Partial<RenameRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } as RenameRule : r));
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const renderFields = (rule: RenameRule) => {
+    switch (rule.type) {
+      case 'replace':
+        return (
+          <>
+            <input type="text" value={rule.find} onChange={e => update(rule.id, { find: e.target.value })} className={inputClass} placeholder={rule.regex ? '(\\d+)_(.*)' : 'Buscar...'} />
+            <input type="text" value={rule.replace} onChange={e => update(rule.id, { replace: e.target.value })} className={inputClass} placeholder={rule.regex ? '$2_$1' : 'Reemplazar por...'} />
+            <div className="flex gap-3">
+              <label className="flex items-center gap-1 text-[9px] text-slate-500"><input type="checkbox" checked={rule.regex} onChange={e => update(rule.id, { regex: e.target.checked })} className="w-2.5 h-2.5" /> Regex</label>
+              <label className="flex items-center gap-1 text-[9px] text-slate-500"><input type="checkbox" checked={rule.caseSensitive} onChange={e => update(rule.id, { caseSensitive: e.target.checked })} className="w-2.5 h-2.5" /> Aa</label>
+            </div>
+          </>
+        );
+      case 'case':
+        return (
+          <select value={rule.mode} onChange={e => update(rule.id, { mode: e.target.value as CaseMode })} className={inputClass}>
+            {(Object.keys(CASE_LABELS) as CaseMode[]).map(m => <option key={m} value={m}>{CASE_LABELS[m]}</option>)}
+          </select>
+        );
+      case 'trim':
+        return (
+          <div className="grid grid-cols-2 gap-1">
+            <input type="text" value={rule.chars} onChange={e => update(rule.id, { chars: e.target.value })} className={inputClass} placeholder="Espacios" />
+            <select value={rule.where} onChange={e => update(rule.id, { where: e.target.value as typeof rule.where })} className={inputClass}>
+              <option value="both">Extremos</option>
+              <option value="start">Inicio</option>
+              <option value="end">Final</option>
+              <option value="all">Todos</option>
+            </select>
+          </div>
+        );
+      case 'insert':
+        return (
+          <>
+            <input type="text" value={rule.text} onChange={e => update(rule.id, { text: e.target.value })} className={inputClass} placeholder="Texto a insertar" />
+            <div className="grid grid-cols-2 gap-1">
+              <input type="number" min={0} value={rule.position} onChange={e => update(rule.id, { position: parseInt(e.target.value) || 0 })} className={inputClass} title="Posición" />
+              <select value={rule.fromEnd ? 'end' : 'start'} onChange={e => update(rule.id, { fromEnd: e.target.value === 'end' })} className={inputClass}>
+                <option value="start">Desde inicio</option>
+                <option value="end">Desde final</option>
+              </select>
+            </div>
+          </>
+        );
+      case 'remove':
+        return (
+          <div className="grid grid-cols-3 gap-1">
+            <input type="number" min={0} value={rule.start} onChange={e => update(rule.id, { start: parseInt(e.target.value) || 0 })} className={inputClass} title="Desde posición" />
+            <input type="number" min={0} value={rule.count} onChange={e => update(rule.id, { count: parseInt(e.target.value) || 0 })} className={inputClass} title="Nº caracteres" />
+            <select value={rule.fromEnd ? 'end' : 'start'} onChange={e => update(rule.id, { fromEnd: e.target.value === 'end' })} className={inputClass}>
+              <option value="start">Inicio</option>
+              <option value="end">Final</option>
+            </select>
+          </div>
+        );
+      case 'collapse':
+        return (
+          <select value={rule.separator} onChange={e => update(rule.id, { separator: e.target.value })} className={inputClass}>
+            <option value=" ">Un espacio</option>
+            <option value="_">Guion bajo (_)</option>
+            <option value="-">Guion (-)</option>
+            <option value="">Sin espacios</option>
+          </select>
+        );
+      case 'transliterate':
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {rules.map((rule, i) => {
+        const error = validateRule(rule);
+        return (
+          <div key={rule.id} className={`border rounded p-1.5 space-y-1 ${error ? 'border-rose-300 bg-rose-50/40' : 'border-slate-200'} ${rule.enabled ? '' : 'opacity-50'}`}>
+            <div className="flex items-center gap-1">
+              <input type="checkbox" checked={rule.enabled} onChange={e => update(rule.id, { enabled: e.target.checked })} className="w-2.5 h-2.5" />
+              <span className="text-[9px] font-black text-slate-500 uppercase flex-1 truncate">{i + 1}. {RULE_LABELS[rule.type]}</span>
+              <button disabled={i === 0} onClick={() => move(i, -1)} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30"><ChevronUp className="w-3 h-3" /></button>
+              <button disabled={i === rules.length - 1} onClick={() => move(i, 1)} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30"><ChevronDown className="w-3 h-3" /></button>
+              <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-slate-400 hover:text-rose-600"><Trash2 className="w-3 h-3" /></button>
+            </div>
+            {renderFields(rule)}
+            {error && <p className="text-[9px] text-rose-600">{error}</p>}
+          </div>
+        );
+      })}
+      <div className="flex items-center gap-1">
+        <Plus className="w-3 h-3 text-indigo-400" />
+        <select value="" onChange={e => e.target.value && onChange([...rules, createRule(e.target.value as RenameRuleType)])} className={inputClass}>
+          <option value="">Añadir regla...</option>
+          {(Object.keys(RULE_LABELS) as RenameRuleType[]).map(t => <option key={t} value={t}>{RULE_LABELS[t]}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default RuleEditor;
@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Sparkles, Check, X, Square } from 'lucide-react';
+import { FileItem, SuggestionProviderId, SuggestionSettings } from '../types';
+import { buildSuggestionInput, createProvider } from '../services/geminiService';
+import { runPool } from '../utils/concurrency';
+import { loadSuggestionSettings, storeSuggestionSettings } from '../utils/suggestionSettings';
+
+const PROVIDER_LABELS: Record<SuggestionProviderId, string> = {
+  rules: 'Reglas (sin conexión)',
+  local: 'Servidor local',
+  gemini: 'Gemini (envía datos a Google)'
+};
+
+// Los modelos remotos limitan las peticiones por minuto
+const CONCURRENCY: Record<SuggestionProviderId, number> = { rules: 8, local: 4, gemini: 2 };
+
+interface Suggestion {
+  current: string;
+  proposed?: string;
+  error?: string;
+}
+
+/**
+ * Parte común al principio y al final de dos textos, para resaltar solo lo que cambia.
+ */
+const diffParts = (a: string, b: string) => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  return { head: a.slice(0, start), removed: a.slice(start, a.length - end), added: b.slice(start, b.length - end), tail: a.slice(a.length - end) };
+};
+
+interface SuggestionPanelProps {
+  files: FileItem[]; // Ficheros para los que se piden sugerencias
+  onApply: (updates: Map<string, Partial<FileItem>>) => void;
+  onClose: () => void;
+}
+
+const SuggestionPanel: React.FC<SuggestionPanelProps> = ({ files, onApply, onClose }) => {
+  const [settings, setSettings] = useState<SuggestionSettings>(loadSuggestionSettings);
+  const [suggestions, setSuggestions] = useState<Map<string, Suggestion>>(new Map());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  useEffect(() => storeSuggestionSettings(settings), [settings]);
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const update = (patch: Partial<SuggestionSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const generate = async () => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setError(null);
+    setSuggestions(new Map());
+    setProgress({ done: 0, total: files.length });
+    let done = 0;
+    try {
+      const provider = createProvider(settings);
+      await runPool(files, CONCURRENCY[settings.provider], async (f: FileItem) => {
+        let entry: Suggestion;
+        try {
+          const input = await buildSuggestionInput(f, settings);
+          entry = { current: f.customBaseName, proposed: await provider.suggest(input, settings.convention, controller.signal) };
+        } catch (e: any) {
+          if (controller.signal.aborted) return;
+          entry = { current: f.customBaseName, error: e?.message ?? String(e) };
+        }
+        setSuggestions(prev => new Map(prev).set(f.id, entry));
+        setProgress({ done: ++done, total: files.length });
+      }, undefined, controller.signal);
+    } catch (e: any) {
+      if (!controller.signal.aborted) setError(e?.message ?? String(e));
+    } finally {
+      abort.current = null;
+      setProgress(null);
+    }
+  };
+
+  const resolve = (ids: string[], accept: boolean) => {
+    if (accept) {
+      const updates = new Map<string, Partial<FileItem>>();
+      ids.forEach(id => {
+        const proposed = suggestions.get(id)?.proposed;
+        if (proposed) updates.set(id, { customBaseName: proposed });
+      });
+      onApply(updates);
+    }
+    setSuggestions(prev => {
+      const next = new Map(prev);
+      ids.forEach(id => next.delete(id));
+      return next;
+    });
+  };
+
+  const pending = files.filter(f => suggestions.get(f.id)?.proposed !== undefined && suggestions.get(f.id)!.proposed !== suggestions.get(f.id)!.current);
+  const failed = files.filter(f => suggestions.get(f.id)?.error);
+  const inputClass = 'w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500';
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[85vh] p-6 space-y-3 border border-slate-200 flex flex-col">
+        <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest border-b pb-2 flex items-center gap-2"><Sparkles className="w-4 h-4 text-indigo-600" /> Sugerir Nombres</h3>
+
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="text-[9px] font-bold text-slate-400 uppercase">Proveedor</label>
+            <select value={settings.provider} disabled={!!progress} onChange={e => update({ provider: e.target.value as SuggestionProviderId })} className={inputClass}>
+              {(Object.keys(PROVIDER_LABELS) as SuggestionProviderId[]).map(p => <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>)}
+            </select>
+          </div>
+          {settings.provider === 'local' && (
+            <div className="col-span-2">
+              <label className="text-[9px] font-bold text-slate-400 uppercase">URL del servidor</label>
+              <input type="url" value={settings.endpoint} disabled={!!progress} onChange={e => update({ endpoint: e.target.value })} className={`${inputClass} font-mono`} />
+            </div>
+          )}
+          <div className="col-span-3">
+            <label className="text-[9px] font-bold text-slate-400 uppercase">Convención de nombres</label>
+            <textarea value={settings.convention} disabled={!!progress} onChange={e => update({ convention: e.target.value })} rows={2} className={`${inputClass} resize-none`} />
+          </div>
+          {settings.provider !== 'rules' && (
+            <div className="col-span-3 flex gap-4 text-[11px] font-medium text-slate-600">
+              <label className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={settings.includeSnippet} onChange={e => update({ includeSnippet: e.target.checked })} className="w-3 h-3" /> Enviar el principio de los ficheros de texto</label>
+              <label className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={settings.includeThumbnail} onChange={e => update({ includeThumbnail: e.target.checked })} className="w-3 h-3" /> Enviar miniatura de las imágenes</label>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          {progress ? (
+            <>
+              <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }} /></div>
+              <span className="text-[10px] font-bold text-slate-500">{progress.done}/{progress.total}</span>
+              <button onClick={() => abort.current?.abort()} className="flex items-center gap-1 px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded text-[10px] font-bold"><Square className="w-3 h-3" /> Detener</button>
+            </>
+          ) : (
+            <button disabled={files.length === 0} onClick={generate} className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 text-white rounded-lg text-[10px] font-bold uppercase"><Sparkles className="w-3 h-3" /> Sugerir para {files.length} ficheros</button>
+          )}
+          <div className="flex-1" />
+          <button disabled={pending.length === 0} onClick={() => resolve(pending.map(f => f.id), true)} className="flex items-center gap-1 px-2 py-1 bg-emerald-50 hover:bg-emerald-100 disabled:opacity-40 text-emerald-700 border border-emerald-200 rounded text-[10px] font-bold"><Check className="w-3 h-3" /> Aceptar todas ({pending.length})</button>
+          <button disabled={pending.length === 0} onClick={() => resolve(pending.map(f => f.id), false)} className="flex items-center gap-1 px-2 py-1 bg-rose-50 hover:bg-rose-100 disabled:opacity-40 text-rose-700 border border-rose-200 rounded text-[10px] font-bold"><X className="w-3 h-3" /> Rechazar todas</button>
+        </div>
+
+        {error && <div className="text-[11px] text-rose-700 bg-rose-50 p-2 rounded border border-rose-200">{error}</div>}
+
+        <div className="flex-1 overflow-auto custom-scrollbar border border-slate-200 rounded">
+          {pending.length === 0 && failed.length === 0 && <p className="text-[11px] text-slate-400 italic text-center py-8">{progress ? 'Generando...' : 'Sin sugerencias pendientes.'}</p>}
+          <div className="divide-y divide-slate-100">
+            {pending.map(f => {
+              const s = suggestions.get(f.id)!;
+              const d = diffParts(s.current, s.proposed!);
+              return (
+                <div key={f.id} className="flex items-center gap-2 px-2 py-1 text-[10px]">
+                  <span className="w-1/4 truncate text-slate-400 font-mono" title={f.originalName}>{f.originalName}</span>
+                  <span className="flex-1 truncate font-mono" title={`${s.current} → ${s.proposed}`}>
+                    {d.head}<span className="bg-rose-100 text-rose-700 line-through">{d.removed}</span><span className="bg-emerald-100 text-emerald-700 font-bold">{d.added}</span>{d.tail}
+                  </span>
+                  <button onClick={() => resolve([f.id], true)} title="Aceptar" className="p-1 text-emerald-600 hover:bg-emerald-50 rounded"><Check className="w-3 h-3" /></button>
+                  <button onClick={() => resolve([f.id], false)} title="Rechazar" className="p-1 text-rose-600 hover:bg-rose-50 rounded"><X className="w-3 h-3" /></button>
+                </div>
+              );
+            })}
+            {failed.map(f => (
+              <div key={f.id} className="flex items-center gap-2 px-2 py-1 text-[10px] bg-rose-50/40">
+                <span className="w-1/4 truncate text-slate-400 font-mono" title={f.originalName}>{f.originalName}</span>
+                <span className="flex-1 truncate text-rose-600" title={suggestions.get(f.id)!.error}>{suggestions.get(f.id)!.error}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <button onClick={onClose} className="w-full py-2 bg-slate-100 rounded-lg font-bold text-xs hover:bg-slate-200 transition-colors">CERRAR</button>
+      </div>
+    </div>
+  );
+};
+
+export default SuggestionPanel;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Play, Square, Trash2 } from 'lucide-react';
+import { Preset, WatchRun, WatchSettings } from '../types';
+import { loadPresets } from '../utils/presets';
+import { HAS_FS_OBSERVER, MIN_WATCH_INTERVAL } from '../utils/watchMode';
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString();
+
+interface WatchPanelProps {
+  settings: WatchSettings;
+  active: boolean;
+  canStart: boolean; // Hace falta una carpeta de origen con permiso de escritura
+  lastCheck: number | null;
+  waiting: number; // Ficheros que aún se están escribiendo
+  log: WatchRun[];
+  onChange: (patch: Partial<WatchSettings>) => void;
+  onToggle: () => void;
+  onClearLog: () => void;
+}
+
+const WatchPanel: React.FC<WatchPanelProps> = ({ settings, active, canStart, lastCheck, waiting, log, onChange, onToggle, onClearLog }) => {
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
+  const preset = presets.find(p => p.id === settings.presetId);
+  const inputClass = 'w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500';
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="text-[9px] font-bold text-slate-400 uppercase">Preset a aplicar</label>
+        <select value={settings.presetId} disabled={active} onFocus={() => setPresets(loadPresets())} onChange={e => onChange({ presetId: e.target.value })} className={inputClass}>
+          <option value="">— Elige un preset —</option>
+          {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <label className="text-[9px] font-bold text-slate-400 uppercase">Reescanear cada (s)</label>
+          <input type="number" min={MIN_WATCH_INTERVAL} value={settings.intervalSec} disabled={active} onChange={e => onChange({ intervalSec: Math.max(MIN_WATCH_INTERVAL, parseInt(e.target.value) || MIN_WATCH_INTERVAL) })} className={inputClass} />
+        </div>
+        <button
+          onClick={onToggle}
+          disabled={!active && (!canStart || !preset)}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase text-white disabled:opacity-40 ${active ? 'bg-rose-600 hover:bg-rose-700' : 'bg-emerald-600 hover:bg-emerald-700'}`}
+        >
+          {active ? <><Square className="w-3 h-3" /> Detener</> : <><Play className="w-3 h-3" /> Vigilar</>}
+        </button>
+      </div>
+      <label className={`flex items-center gap-1 text-[10px] font-medium ${HAS_FS_OBSERVER ? 'text-slate-600 cursor-pointer' : 'text-slate-300'}`} title={HAS_FS_OBSERVER ? undefined : 'Este navegador no tiene FileSystemObserver: solo se reescanea cada intervalo'}>
+        <input type="checkbox" checked={settings.useObserver && HAS_FS_OBSERVER} disabled={active || !HAS_FS_OBSERVER} onChange={e => onChange({ useObserver: e.target.checked })} className="w-3 h-3" /> Reaccionar al momento a los cambios
+      </label>
+      {!canStart && !active && <p className="text-[9px] text-slate-400 leading-tight">Elige una carpeta de origen para poder vigilarla.</p>}
+
+      {active && (
+        <div className="text-[9px] text-slate-500 bg-emerald-50 border border-emerald-200 rounded px-2 py-1 space-y-0.5">
+          <div className="flex items-center gap-1 font-bold text-emerald-700"><span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse" /> Vigilando con «{preset?.name}»</div>
+          <div>Última comprobación: {lastCheck ? formatTime(lastCheck) : '—'}</div>
+          {waiting > 0 && <div className="text-amber-700">{waiting} ficheros aún se están escribiendo</div>}
+        </div>
+      )}
+
+      {log.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] font-bold text-slate-400 uppercase">Ejecuciones automáticas</span>
+            <button onClick={onClearLog} title="Vaciar el registro" className="text-slate-300 hover:text-rose-600"><Trash2 className="w-3 h-3" /></button>
+          </div>
+          <div className="max-h-40 overflow-y-auto custom-scrollbar divide-y divide-slate-100 border border-slate-100 rounded">
+            {log.map((run, i) => (
+              <div key={`${run.at}-${i}`} className="px-2 py-1 text-[9px]">
+                <div className="flex justify-between text-slate-500"><span className="font-mono">{new Date(run.at).toLocaleString()}</span><span className="truncate ml-2">{run.presetName}</span></div>
+                <div className="text-slate-600">
+                  {run.detected} detectados · {run.processed} en el lote
+                  {run.processed > 0 && <> · <span className="text-emerald-700">{run.success} OK</span> · <span className="text-rose-700">{run.errors} ERR</span> · {run.skipped} omitidos</>}
+                </div>
+                {run.note && <div className="text-amber-700">{run.note}</div>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchPanel;
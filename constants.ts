@@ -0,0 +1,45 @@
+import { FilterState, GlobalConfig, ScanOptions } from './types';
+
+export const DEFAULT_GLOBAL_CONFIG: GlobalConfig = {
+  prefix: '',
+  suffix: '',
+  extension: '',
+  conflictPolicy: 'skip',
+  mode: 'copy',
+  rules: [],
+  template: '',
+  counterStart: 1,
+  counterStep: 1,
+  folderMode: 'mirror',
+  folderTemplate: '{yyyy}/{MM}',
+  folderPattern: '',
+  skipExistingContent: false,
+  targetProfile: 'windows',
+  sanitizeMode: 'off',
+  sanitizeReplacement: '_'
+};
+
+export const DEFAULT_SCAN_OPTIONS: ScanOptions = {
+  recursive: false,
+  maxDepth: ''
+};
+
+export const createDefaultFilters = (): FilterState => ({
+  search: '',
+  searchMode: 'text',
+  searchExclude: false,
+  path: '',
+  dateStart: '',
+  dateEnd: '',
+  minSize: 0,
+  maxSize: '',
+  extensions: [],
+  types: [],
+  statuses: [],
+  hideHidden: false,
+  duplicatesOnly: false,
+  groups: [],
+  groupJoin: 'and',
+  sort: 'name_asc',
+  limit: ''
+});
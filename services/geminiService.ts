@@ -0,0 +1,210 @@
+import { FileItem, FileMetadata, SuggestionProviderId, SuggestionSettings } from '../types';
+import { getBaseName, getExtension } from '../utils/fileUtils';
+import { cameraName } from '../utils/metadata';
+import { readFile } from '../utils/fileSource';
+import { transliterate } from '../utils/renameRules';
+
+// Datos de un fichero que se envían al proveedor para proponer su nombre
+export interface SuggestionInput {
+  fileName: string;
+  baseName: string; // Nombre base editado actualmente
+  extension: string;
+  folder: string;
+  size: number;
+  lastModified: number;
+  type: string;
+  metadata?: FileMetadata;
+  snippet?: string; // Principio del contenido de los ficheros de texto
+  thumbnail?: { mimeType: string; data: string }; // Miniatura JPEG en base64
+}
+
+export interface NameSuggestionProvider {
+  id: SuggestionProviderId;
+  label: string;
+  /** Devuelve el nombre base propuesto (sin extensión) siguiendo la convención. */
+  suggest: (input: SuggestionInput, convention: string, signal?: AbortSignal) => Promise<string>;
+}
+
+const GEMINI_MODEL = 'gemini-2.0-flash';
+const GEMINI_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const SNIPPET_BYTES = 2048;
+const THUMBNAIL_SIZE = 256;
+const THUMBNAIL_MAX_SOURCE = 20 * 1024 * 1024;
+const TEXT_EXTENSIONS = new Set(['txt', 'md', 'csv', 'tsv', 'json', 'xml', 'html', 'log', 'ini', 'yml', 'yaml']);
+
+/**
+ * Descripción en texto del fichero, común a los proveedores que usan un modelo de lenguaje.
+ */
+const describeInput = (input: SuggestionInput, convention: string) => {
+  const meta = input.metadata;
+  const lines = [
+    'Propón un nombre de fichero nuevo (solo el nombre base, sin extensión ni carpetas) siguiendo esta convención:',
+    convention.trim() || 'Nombre descriptivo y breve, sin espacios.',
+    '',
+    `Nombre actual: ${input.fileName}`,
+    `Nombre base editado: ${input.baseName}`,
+    `Carpeta: ${input.folder || '/'}`,
+    `Tipo: ${input.type || 'desconocido'} · ${input.size} bytes`,
+    `Modificado: ${new Date(input.lastModified).toISOString()}`
+  ];
+  if (meta?.captureDate) lines.push(`Fecha de captura: ${new Date(meta.captureDate).toISOString()}`);
+  if (cameraName(meta)) lines.push(`Cámara: ${cameraName(meta)}`);
+  if (meta?.title) lines.push(`Título: ${meta.title}`);
+  if (meta?.author) lines.push(`Autor: ${meta.author}`);
+  if (meta?.album) lines.push(`Álbum: ${meta.album}`);
+  if (input.snippet) lines.push('', 'Principio del contenido:', input.snippet);
+  return lines.join('\n');
+};
+
+/**
+ * Limpia la respuesta de un proveedor: una sola línea, sin comillas, carpetas ni la extensión del fichero.
+ */
+const cleanSuggestion = (raw: string, extension: string) => {
+  let name = raw.split('\n')[0].trim().replace(/^["'`]+|["'`]+$/g, '');
+  name = name.substring(Math.max(name.lastIndexOf('/'), name.lastIndexOf('\\')) + 1);
+  if (extension && name.toLowerCase().endsWith(`.${extension.toLowerCase()}`)) name = getBaseName(name);
+  if (!name) throw new Error('El proveedor no devolvió ningún nombre');
+  return name;
+};
+
+/**
+ * Proveedor de Google Gemini. La clave la inyecta Vite desde GEMINI_API_KEY.
+ */
+export const createGeminiProvider = (apiKey = process.env.GEMINI_API_KEY, model = GEMINI_MODEL): NameSuggestionProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  suggest: async (input, convention, signal) => {
+    if (!apiKey) throw new Error('Falta GEMINI_API_KEY en el entorno');
+    const parts: object[] = [{ text: describeInput(input, convention) }];
+    if (input.thumbnail) parts.push({ inline_data: { mime_type: input.thumbnail.mimeType, data: input.thumbnail.data } });
+    const response = await fetch(`${GEMINI_URL}/${model}:generateContent?key=${encodeURIComponent(apiKey)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts }],
+        generationConfig: {
+          temperature: 0.2,
+          responseMimeType: 'application/json',
+          responseSchema: { type: 'OBJECT', properties: { baseName: { type: 'STRING' } }, required: ['baseName'] }
+        }
+      })
+    });
+    if (!response.ok) throw new Error(`Gemini respondió ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    const body = await response.json();
+    const text: string = body?.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+    let baseName = text;
+    try {
+      baseName = JSON.parse(text).baseName ?? '';
+    } catch (e) {}
+    return cleanSuggestion(baseName, input.extension);
+  }
+});
+
+/**
+ * Proveedor para un servidor propio: recibe { convention, prompt, file } por POST y
+ * debe responder { baseName } en JSON o el nombre en texto plano.
+ */
+export const createLocalProvider = (endpoint: string): NameSuggestionProvider => ({
+  id: 'local',
+  label: 'Servidor local',
+  suggest: async (input, convention, signal) => {
+    if (!endpoint) throw new Error('Indica la URL del servidor local');
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+      body: JSON.stringify({ convention, prompt: describeInput(input, convention), file: input })
+    });
+    if (!response.ok) throw new Error(`El servidor respondió ${response.status}`);
+    const text = await response.text();
+    let baseName = text;
+    try {
+      baseName = JSON.parse(text).baseName ?? '';
+    } catch (e) {}
+    return cleanSuggestion(baseName, input.extension);
+  }
+});
+
+// Restos habituales de cámaras, móviles y descargas que no aportan nada al nombre
+const NOISE = /^(img|dsc|dscn|dcim|pxl|vid|mvi|scan|screenshot|captura)[_ -]?|\s*\((\d+|copia|copy)\)$|[_ -](copia|copy|final|def)$/gi;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Proveedor sin red y determinista: fecha + título o nombre limpio, con el separador y las
+ * mayúsculas que se deducen de la convención (guion bajo, guion, minúsculas, mayúsculas).
+ */
+export const rulesProvider: NameSuggestionProvider = {
+  id: 'rules',
+  label: 'Reglas (sin conexión)',
+  suggest: async (input, convention) => {
+    const hint = convention.toLowerCase();
+    const separator = /kebab|gui[oó]n(?! bajo)/.test(hint) && !/snake|gui[oó]n bajo/.test(hint) ? '-' : '_';
+    const d = new Date(input.metadata?.captureDate ?? input.lastModified);
+    const date = /sin fecha|no date/.test(hint) ? '' : `${d.getFullYear()}${separator === '-' ? '-' : ''}${pad(d.getMonth() + 1)}${separator === '-' ? '-' : ''}${pad(d.getDate())}`;
+    const subject = input.metadata?.title || input.baseName.replace(NOISE, '') || getBaseName(input.fileName);
+    const words = transliterate(subject).replace(/[^A-Za-z0-9]+/g, ' ').trim().split(/\s+/).filter(Boolean)
+      // Una fecha que ya estaba en el nombre no se repite
+      .filter(w => !(date && w.replace(/\D/g, '') === date.replace(/\D/g, '')));
+    let name = [date, ...words].filter(Boolean).join(separator);
+    if (/may[uú]sculas|upper/.test(hint)) name = name.toUpperCase();
+    else if (!/conserva|keep case/.test(hint)) name = name.toLowerCase();
+    return name || input.baseName;
+  }
+};
+
+export const createProvider = (settings: SuggestionSettings): NameSuggestionProvider => {
+  switch (settings.provider) {
+    case 'gemini': return createGeminiProvider();
+    case 'local': return createLocalProvider(settings.endpoint);
+    default: return rulesProvider;
+  }
+};
+
+const toBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+/**
+ * Miniatura JPEG reducida de una imagen, o undefined si el navegador no puede decodificarla.
+ */
+const createThumbnail = async (file: File) => {
+  if (!file.type.startsWith('image/') || file.size > THUMBNAIL_MAX_SOURCE) return undefined;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return { mimeType: 'image/jpeg', data: await toBase64(await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.7 })) };
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * Reúne los datos de un fichero para el proveedor. El contenido solo se lee si se ha pedido.
+ */
+export const buildSuggestionInput = async (f: FileItem, settings: Pick<SuggestionSettings, 'includeSnippet' | 'includeThumbnail'>): Promise<SuggestionInput> => {
+  const input: SuggestionInput = {
+    fileName: f.originalName,
+    baseName: f.customBaseName,
+    extension: getExtension(f.originalName),
+    folder: f.relativePath,
+    size: f.size,
+    lastModified: f.lastModified,
+    type: f.type,
+    metadata: f.metadata
+  };
+  const isText = f.type.startsWith('text/') || TEXT_EXTENSIONS.has(input.extension.toLowerCase());
+  if ((settings.includeSnippet && isText) || (settings.includeThumbnail && f.type.startsWith('image/'))) {
+    const file = await readFile(f);
+    if (settings.includeSnippet && isText) input.snippet = (await file.slice(0, SNIPPET_BYTES).text()).trim();
+    if (settings.includeThumbnail) input.thumbnail = await createThumbnail(file);
+  }
+  return input;
+};
@@ -1,9 +1,33 @@
 
 export type SortType = 'name_asc' | 'name_desc' | 'date_asc' | 'date_desc' | 'size_asc' | 'size_desc';
 
+export type FileStatus = 'pending' | 'processing' | 'success' | 'error' | 'skipped';
+
+// Cómo se reparten los ficheros en el destino: replicando subcarpetas, todos juntos o según una plantilla
+export type FolderMode = 'mirror' | 'flatten' | 'template';
+
+// Qué hacer cuando el nombre final ya existe en el destino o se repite en el lote
+export type ConflictPolicy = 'skip' | 'overwrite' | 'number' | 'newer' | 'larger';
+
+// Sistema de archivos de destino contra el que se validan los nombres
+export type TargetProfile = 'windows' | 'macos' | 'linux' | 'fat32' | 'cloud';
+
+// Corrección automática de nombres: sustituir o eliminar los caracteres no válidos
+export type SanitizeMode = 'off' | 'replace' | 'strip';
+
+// copy: copia al destino · move: copia y borra el original · rename: renombra en su carpeta
+// zip: descarga un ZIP con los nombres finales (el único modo sin File System Access)
+export type BatchMode = 'copy' | 'move' | 'rename' | 'zip';
+
 export interface FileItem {
   id: string;
-  handle: FileSystemFileHandle;
+  // Sin File System Access solo se tiene el File (de un <input webkitdirectory> o de un arrastre)
+  handle?: FileSystemFileHandle;
+  parentHandle?: FileSystemDirectoryHandle;
+  file?: File;
+  sourceId: string; // Origen del que procede: la carpeta elegida o cada arrastre añadido a la lista
+  sourceName: string; // Nombre visible del origen
+  relativePath: string; // Carpeta relativa al origen ('' = raíz)
   originalName: string;
   size: number;
   lastModified: number;
@@ -14,25 +38,264 @@ export interface FileItem {
   prefix: string;
   suffix: string;
   extension: string;
+  template: string; // Plantilla propia de la fila ('' = usar la global)
+  excluded: boolean; // Apartado del lote aunque esté seleccionado
   
-  status: 'pending' | 'processing' | 'success' | 'error' | 'skipped';
+  status: FileStatus;
   errorMessage?: string;
+
+  metadata?: FileMetadata; // undefined = aún no leídos
+  contentHash?: string; // SHA-256 del contenido; '' = sin otro fichero que pueda ser igual
+  mappingFields?: Record<string, string>; // Columnas extra de la fila del mapeo importado (cabecera en minúsculas -> valor)
+}
+
+// Metadatos internos del fichero (EXIF, Info de PDF, etiquetas ID3/MP4)
+export interface FileMetadata {
+  captureDate?: number; // Fecha de captura o creación del contenido
+  cameraMake?: string;
+  cameraModel?: string;
+  hasGps?: boolean;
+  title?: string;
+  author?: string; // Autor del PDF o artista de la pista
+  album?: string;
+  year?: string;
+  duration?: number; // Segundos
+}
+
+// Columnas opcionales de la tabla con metadatos
+export type MetadataColumn = 'captureDate' | 'camera' | 'hasGps' | 'title' | 'author' | 'album' | 'duration';
+
+// Reglas de renombrado: se aplican en orden sobre prefijo + base + sufijo
+export type CaseMode = 'lower' | 'upper' | 'title' | 'sentence' | 'camel' | 'snake' | 'kebab';
+
+interface RuleBase {
+  id: string;
+  enabled: boolean;
+}
+
+export interface ReplaceRule extends RuleBase {
+  type: 'replace';
+  find: string;
+  replace: string; // Admite $1, $2... cuando regex = true
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface CaseRule extends RuleBase {
+  type: 'case';
+  mode: CaseMode;
+}
+
+export interface TrimRule extends RuleBase {
+  type: 'trim';
+  chars: string; // Vacío = espacios en blanco
+  where: 'both' | 'start' | 'end' | 'all'; // 'all' elimina los caracteres en cualquier posición
+}
+
+export interface InsertRule extends RuleBase {
+  type: 'insert';
+  text: string;
+  position: number;
+  fromEnd: boolean;
+}
+
+export interface RemoveRule extends RuleBase {
+  type: 'remove';
+  start: number;
+  count: number;
+  fromEnd: boolean;
+}
+
+export interface TransliterateRule extends RuleBase {
+  type: 'transliterate';
 }
 
+export interface CollapseSpacesRule extends RuleBase {
+  type: 'collapse';
+  separator: string; // Sustituto de cada bloque de espacios (' ', '_', '-'...)
+}
+
+export type RenameRule = ReplaceRule | CaseRule | TrimRule | InsertRule | RemoveRule | TransliterateRule | CollapseSpacesRule;
+
+export type RenameRuleType = RenameRule['type'];
+
 export interface GlobalConfig {
   prefix: string;
   suffix: string;
   extension: string;
-  overwrite: boolean;
-  find: string;
-  replace: string;
+  conflictPolicy: ConflictPolicy;
+  mode: BatchMode;
+  rules: RenameRule[];
+  template: string; // Plantilla de nombre, p. ej. INV_{yyyy}-{MM}-{dd}_{counter:000}.{ext}
+  counterStart: number;
+  counterStep: number;
+  folderMode: FolderMode;
+  folderTemplate: string; // Ruta de subcarpetas con tokens, p. ej. {yyyy}/{MM} o {category}
+  folderPattern: string; // Expresión regular sobre el nombre original para {match:n}
+  skipExistingContent: boolean; // Omitir ficheros cuyo contenido ya está en el destino
+  targetProfile: TargetProfile;
+  sanitizeMode: SanitizeMode;
+  sanitizeReplacement: string;
+}
+
+export interface ScanOptions {
+  recursive: boolean;
+  maxDepth: number | ''; // Niveles bajo la raíz ('' = sin límite)
+}
+
+export type SearchMode = 'text' | 'glob' | 'regex';
+
+export type FilterField = 'name' | 'path' | 'ext' | 'type' | 'size' | 'date' | 'status'
+  | 'taken' | 'camera' | 'title' | 'author' | 'gps'; // Metadatos
+
+export type FilterOperator =
+  | 'contains' | 'not_contains' | 'equals' | 'not_equals' | 'starts' | 'ends' | 'glob' | 'regex' // Texto
+  | 'gt' | 'lt'; // Tamaño (KB) y fechas (yyyy-mm-dd)
+
+export interface FilterCondition {
+  id: string;
+  field: FilterField;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface FilterGroup {
+  id: string;
+  join: 'and' | 'or'; // Cómo se combinan las condiciones del grupo
+  conditions: FilterCondition[];
 }
 
 export interface FilterState {
   search: string;
+  searchMode: SearchMode;
+  searchExclude: boolean; // true = ocultar los que coinciden
+  path: string;
   dateStart: string;
   dateEnd: string;
   minSize: number; // en KB
+  maxSize: number | ''; // en KB ('' = sin límite)
+  extensions: string[]; // Vacío = todas
+  types: string[]; // Tipos MIME; vacío = todos
+  statuses: FileStatus[]; // Vacío = todos
+  hideHidden: boolean; // Ocultar ficheros ocultos y de sistema
+  duplicatesOnly: boolean; // Solo ficheros con contenido repetido (requiere calcular hashes)
+  groups: FilterGroup[];
+  groupJoin: 'and' | 'or'; // Cómo se combinan los grupos entre sí
   sort: SortType;
   limit: number | ''; // Campo para limitar ficheros a tratar
 }
+
+export interface JournalEntry {
+  sourceName: string;
+  sourcePath: string;
+  targetName: string;
+  targetPath: string;
+  mode: BatchMode;
+  timestamp: number;
+  outcome: 'success' | 'error' | 'skipped';
+  errorMessage?: string;
+  overwrote?: boolean; // Sustituyó un fichero que ya existía
+  // Carpetas reales para poder deshacer la operación tras recargar la página
+  sourceDir?: FileSystemDirectoryHandle; // Falta en los ficheros sueltos arrastrados, que solo se copian
+  targetDir?: FileSystemDirectoryHandle;
+  undone?: boolean;
+  undoError?: string;
+}
+
+export interface BatchJournal {
+  id: string;
+  startedAt: number;
+  finishedAt?: number;
+  mode: BatchMode;
+  sourceName: string;
+  destName?: string;
+  entries: JournalEntry[];
+  undoneAt?: number;
+}
+
+// Causa legible de un error del lote, deducida de la excepción del navegador
+export type ErrorCause = 'permission' | 'invalid_name' | 'quota' | 'missing' | 'locked' | 'unknown';
+
+export interface BatchReportEntry {
+  id: string; // Id del FileItem, para reintentar los fallidos
+  sourcePath: string;
+  sourceName: string;
+  targetPath: string;
+  targetName: string;
+  size: number;
+  outcome: 'success' | 'error' | 'skipped';
+  message?: string;
+  cause?: ErrorCause;
+}
+
+// Resultado de la última ejecución, mostrado al terminar y exportable
+export interface BatchReport {
+  mode: BatchMode;
+  startedAt: number;
+  finishedAt: number;
+  activeMs: number; // Tiempo de trabajo sin contar las pausas
+  cancelled: boolean;
+  entries: BatchReportEntry[];
+}
+
+export interface Preset {
+  id: string;
+  name: string;
+  version: number; // Versión del esquema con que se guardó
+  createdAt: number;
+  updatedAt: number;
+  config: GlobalConfig;
+  filters: FilterState;
+  scanOptions: ScanOptions;
+}
+
+// Formato de los ficheros .json que se comparten entre compañeros
+export interface PresetFile {
+  format: 'ga-archivos-presets';
+  version: number;
+  exportedAt: number;
+  presets: Preset[];
+}
+
+// Anchos (px) y columnas ocultas de la tabla de ficheros
+export interface TableLayout {
+  widths: Record<string, number>;
+  hidden: string[];
+}
+
+export interface RecentFolder {
+  id: string;
+  role: 'source' | 'dest';
+  name: string;
+  handle: FileSystemDirectoryHandle;
+  lastUsed: number;
+}
+
+// Origen de las sugerencias de nombre: Gemini, un servidor HTTP local o reglas sin red
+export type SuggestionProviderId = 'gemini' | 'local' | 'rules';
+
+export interface SuggestionSettings {
+  provider: SuggestionProviderId;
+  endpoint: string; // URL del servidor local
+  convention: string; // Convención de nombres descrita en lenguaje natural
+  includeSnippet: boolean; // Enviar el principio de los ficheros de texto
+  includeThumbnail: boolean; // Enviar una miniatura de las imágenes
+}
+
+// Modo vigilancia: reescanea el origen y aplica un preset a lo nuevo
+export interface WatchSettings {
+  presetId: string;
+  intervalSec: number; // Cada cuánto se reescanea el origen
+  useObserver: boolean; // Reaccionar a los cambios con FileSystemObserver si el navegador lo tiene
+}
+
+export interface WatchRun {
+  at: number;
+  presetName: string;
+  detected: number; // Ficheros nuevos o modificados encontrados
+  processed: number; // Los que entraron en el lote con los filtros del preset
+  success: number;
+  errors: number;
+  skipped: number;
+  note?: string; // Por qué no se ejecutó o se detuvo la vigilancia
+}
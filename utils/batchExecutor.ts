@@ -0,0 +1,116 @@
+import { BatchMode, FileItem } from '../types';
+import { PlannedItem } from './batchPlanner';
+import { fileExists } from './directoryUtils';
+
+/**
+ * Vuelca un fichero en el handle de destino por bloques. El contenido solo se confirma al cerrar:
+ * si se cancela con `signal` el flujo se aborta y el destino conserva lo que tenía.
+ */
+const streamInto = async (source: File, target: FileSystemFileHandle, signal?: AbortSignal, onBytes?: (bytes: number) => void) => {
+  signal?.throwIfAborted();
+  const writable: WritableStream = await (target as any).createWritable();
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      onBytes?.(chunk.byteLength);
+      controller.enqueue(chunk);
+    }
+  });
+  await source.stream().pipeThrough(counter).pipeTo(writable, { signal });
+};
+
+/**
+ * Escribe el contenido de un fichero en la carpeta indicada con el nombre dado.
+ * Si falla o se cancela y el fichero no existía, no deja un fichero vacío.
+ */
+export const writeCopy = async (source: File, dir: FileSystemDirectoryHandle, name: string, signal?: AbortSignal, onBytes?: (bytes: number) => void) => {
+  const existed = await fileExists(dir, name);
+  const target = await dir.getFileHandle(name, { create: true });
+  try {
+    await streamInto(source, target, signal, onBytes);
+  } catch (e) {
+    if (!existed) await dir.removeEntry(name).catch(() => {});
+    throw e;
+  }
+  return target;
+};
+
+/**
+ * Renombra un fichero dentro de su carpeta. Usa FileSystemHandle.move() si el navegador
+ * lo implementa y, si no, copia con el nuevo nombre y borra el original.
+ */
+export const renameEntry = async (
+  dir: FileSystemDirectoryHandle,
+  handle: FileSystemFileHandle,
+  currentName: string,
+  newName: string,
+  overwrite: boolean,
+  signal?: AbortSignal
+) => {
+  if (newName === currentName) return handle;
+  signal?.throwIfAborted();
+  const caseOnly = newName.toLowerCase() === currentName.toLowerCase();
+  if (overwrite && !caseOnly) await dir.removeEntry(newName);
+
+  if (typeof (handle as any).move === 'function') {
+    await (handle as any).move(newName);
+    return handle;
+  }
+
+  // En sistemas que no distinguen mayúsculas "a.jpg" y "A.jpg" son el mismo fichero:
+  // se pasa por un nombre temporal para no borrar la copia recién creada.
+  if (caseOnly) {
+    const tempName = `${newName}.${crypto.randomUUID()}.tmp`;
+    const temp = await writeCopy(await handle.getFile(), dir, tempName, signal);
+    await dir.removeEntry(currentName);
+    const renamed = await writeCopy(await temp.getFile(), dir, newName);
+    await dir.removeEntry(tempName);
+    return renamed;
+  }
+
+  const renamed = await writeCopy(await handle.getFile(), dir, newName, signal);
+  await dir.removeEntry(currentName);
+  return renamed;
+};
+
+export interface OperationResult {
+  handle: FileSystemFileHandle;
+  targetDir: FileSystemDirectoryHandle;
+  changed: boolean; // false si el resultado es el propio fichero de origen
+}
+
+export interface OperationSource {
+  handle: FileSystemFileHandle;
+  parentHandle?: FileSystemDirectoryHandle;
+  originalName: string;
+}
+
+/**
+ * Ejecuta la operación planificada para un fichero. Con `signal` la copia en curso se puede
+ * cancelar; en "mover" el original solo se borra si la copia se completó.
+ */
+export const executeOperation = async (
+  f: OperationSource,
+  planned: PlannedItem,
+  mode: BatchMode,
+  resolveTargetDir: (relativePath: string) => Promise<FileSystemDirectoryHandle>,
+  signal?: AbortSignal,
+  onBytes?: (bytes: number) => void
+): Promise<OperationResult> => {
+  // Sin la carpeta de origen no se puede renombrar ni borrar el original
+  if (mode !== 'copy' && !f.parentHandle) throw new Error('Fichero suelto sin carpeta de origen: solo se puede copiar');
+  if (mode === 'rename') {
+    const handle = await renameEntry(f.parentHandle!, f.handle, f.originalName, planned.targetName, planned.action === 'overwrite', signal);
+    return { handle, targetDir: f.parentHandle!, changed: planned.targetName !== f.originalName };
+  }
+
+  const targetDir = await resolveTargetDir(planned.targetDir);
+  // Destino y origen coinciden: no hay nada que copiar ni que borrar
+  if (await fileExists(targetDir, planned.targetName)) {
+    const existing = await targetDir.getFileHandle(planned.targetName);
+    if (await existing.isSameEntry(f.handle)) return { handle: existing, targetDir, changed: false };
+  }
+
+  const target = await writeCopy(await f.handle.getFile(), targetDir, planned.targetName, signal, onBytes);
+  if (mode === 'move') await f.parentHandle!.removeEntry(f.originalName);
+  return { handle: target, targetDir, changed: true };
+};
@@ -0,0 +1,235 @@
+import { ConflictPolicy } from '../types';
+import { getBaseName, getExtension } from './fileUtils';
+import { joinPath } from './directoryUtils';
+
+export interface ExistingEntry {
+  name: string;
+  size: number;
+  lastModified: number;
+}
+
+// Carpeta relativa -> nombre en minúsculas -> fichero existente
+export type DestinationIndex = Map<string, Map<string, ExistingEntry>>;
+
+export interface BatchCandidate {
+  id: string;
+  targetDir: string;
+  targetName: string;
+  size: number;
+  lastModified: number;
+  ownName?: string; // Nombre actual cuando se renombra en la misma carpeta
+  scope?: string; // Origen al que pertenece la carpeta (renombrado con varios orígenes)
+  skipReason?: string; // Se omite de antemano (p. ej. su contenido ya está en el destino)
+}
+
+export type ConflictKind = 'duplicate' | 'exists';
+
+export interface PlannedItem {
+  id: string;
+  targetDir: string;
+  targetName: string;
+  conflicts: ConflictKind[];
+  action: 'write' | 'overwrite' | 'skip';
+  reason?: string;
+  viaTemp?: boolean; // Renombrado: el nombre lo ocupa aún otro fichero del lote, se pasa antes por uno temporal
+}
+
+// Los sistemas de archivos de Windows y macOS no distinguen mayúsculas
+const keyOf = (name: string) => name.toLowerCase();
+
+// Dos orígenes distintos pueden tener carpetas con la misma ruta relativa
+const dirKey = (dir: string, scope?: string) => scope ? `${scope}\0${dir}` : dir;
+
+/**
+ * Lee los ficheros existentes en las carpetas indicadas del destino.
+ * Las carpetas que aún no existen se consideran vacías.
+ */
+export const indexDirectories = async (root: FileSystemDirectoryHandle, dirs: string[]): Promise<DestinationIndex> => {
+  const index: DestinationIndex = new Map();
+  for (const dir of new Set(dirs)) {
+    const entries = new Map<string, ExistingEntry>();
+    index.set(dir, entries);
+    let handle: FileSystemDirectoryHandle = root;
+    try {
+      for (const part of dir.split('/').filter(Boolean)) {
+        handle = await handle.getDirectoryHandle(part);
+      }
+    } catch (e) {
+      continue;
+    }
+    for await (const entry of (handle as any).values()) {
+      if (entry.kind !== 'file') continue;
+      const file = await (entry as FileSystemFileHandle).getFile();
+      entries.set(keyOf(file.name), { name: file.name, size: file.size, lastModified: file.lastModified });
+    }
+  }
+  return index;
+};
+
+/**
+ * Construye el índice a partir de ficheros ya escaneados (renombrado en la propia carpeta).
+ */
+export const indexFiles = (files: { relativePath: string; originalName: string; size: number; lastModified: number; sourceId?: string }[]) => {
+  const index: DestinationIndex = new Map();
+  for (const f of files) {
+    const dir = dirKey(f.relativePath, f.sourceId);
+    let entries = index.get(dir);
+    if (!entries) {
+      entries = new Map();
+      index.set(dir, entries);
+    }
+    entries.set(keyOf(f.originalName), { name: f.originalName, size: f.size, lastModified: f.lastModified });
+  }
+  return index;
+};
+
+/**
+ * Genera "nombre (n).ext" con el primer n libre en la carpeta.
+ */
+export const nextFreeName = (name: string, taken: Set<string>) => {
+  const ext = getExtension(name);
+  const base = getBaseName(name);
+  for (let n = 2; ; n++) {
+    const candidate = ext ? `${base} (${n}).${ext}` : `${base} (${n})`;
+    if (!taken.has(keyOf(candidate))) return candidate;
+  }
+};
+
+// Una pasada del plan. `vacated` son los nombres (carpeta + nombre en minúsculas) que dejan libres
+// los ficheros del lote que se renombran: no cuentan como existentes
+const planPass = (candidates: BatchCandidate[], index: DestinationIndex | null, policy: ConflictPolicy, vacated: Set<string>) => {
+  const plan = new Map<string, PlannedItem>();
+  const groups = new Map<string, BatchCandidate[]>();
+  const taken = new Map<string, Set<string>>();
+  const batchNames = new Set(candidates.filter(c => c.ownName).map(c => joinPath(dirKey(c.targetDir, c.scope), keyOf(c.ownName!))));
+
+  const takenIn = (dir: string) => {
+    let set = taken.get(dir);
+    if (!set) {
+      set = new Set(index?.get(dir)?.keys() ?? []);
+      taken.set(dir, set);
+    }
+    return set;
+  };
+
+  for (const c of candidates) {
+    // Los omitidos de antemano no ocupan nombre ni compiten con el resto
+    if (c.skipReason) {
+      plan.set(c.id, { id: c.id, targetDir: c.targetDir, targetName: c.targetName, conflicts: [], action: 'skip', reason: c.skipReason });
+      continue;
+    }
+    const dir = dirKey(c.targetDir, c.scope);
+    const key = joinPath(dir, keyOf(c.targetName));
+    const group = groups.get(key);
+    if (group) group.push(c);
+    else groups.set(key, [c]);
+    takenIn(dir).add(keyOf(c.targetName));
+  }
+
+  for (const group of groups.values()) {
+    const { targetName } = group[0];
+    const dir = dirKey(group[0].targetDir, group[0].scope);
+    const found = vacated.has(joinPath(dir, keyOf(targetName))) ? undefined : index?.get(dir)?.get(keyOf(targetName));
+    // El nombre lo tiene un fichero del lote que no se renombra: nunca se borra para dejar sitio a otro
+    const occupied = !!found && batchNames.has(joinPath(dir, keyOf(targetName)));
+    const holder = group.find(c => c.ownName && keyOf(c.ownName) === keyOf(targetName));
+    // Un fichero que conserva su nombre (o solo cambia mayúsculas) no choca consigo mismo
+    const isSelf = group.length === 1 && !!group[0].ownName && keyOf(group[0].ownName) === keyOf(targetName);
+    const existing = isSelf ? undefined : found;
+    const conflicts: ConflictKind[] = [];
+    if (group.length > 1) conflicts.push('duplicate');
+    if (existing) conflicts.push('exists');
+
+    const set = (c: BatchCandidate, action: PlannedItem['action'], reason?: string, name = c.targetName) => {
+      const viaTemp = action !== 'skip' && vacated.has(joinPath(dir, keyOf(name))) ? true : undefined;
+      plan.set(c.id, { id: c.id, targetDir: c.targetDir, targetName: name, conflicts, action, reason, viaTemp });
+    };
+
+    if (conflicts.length === 0) {
+      set(group[0], 'write');
+      continue;
+    }
+
+    if (occupied && policy !== 'number') {
+      group.forEach(c => c === holder ? set(c, 'write') : set(c, 'skip', 'Otro fichero del lote conserva ese nombre'));
+      continue;
+    }
+
+    switch (policy) {
+      case 'skip':
+        group.forEach((c, i) => {
+          if (!existing && i === 0) set(c, 'write');
+          else set(c, 'skip', existing ? 'Ya existe en el destino' : 'Nombre repetido en el lote');
+        });
+        break;
+      case 'overwrite':
+        group.forEach((c, i) => {
+          if (i === group.length - 1) set(c, existing ? 'overwrite' : 'write');
+          else set(c, 'skip', 'Lo sustituye otro fichero del lote con el mismo nombre');
+        });
+        break;
+      case 'number':
+        group.forEach((c, i) => {
+          if ((!existing && i === 0) || c === holder) return set(c, 'write');
+          const free = nextFreeName(c.targetName, takenIn(dir));
+          takenIn(dir).add(keyOf(free));
+          set(c, 'write', undefined, free);
+        });
+        break;
+      case 'newer':
+      case 'larger': {
+        const score = (e: { size: number; lastModified: number }) => policy === 'newer' ? e.lastModified : e.size;
+        const winner = group.reduce((best, c) => score(c) > score(best) ? c : best);
+        const keepExisting = existing && score(existing) >= score(winner);
+        const label = policy === 'newer' ? 'más reciente' : 'más grande';
+        group.forEach(c => {
+          if (c === winner && !keepExisting) set(c, existing ? 'overwrite' : 'write');
+          else set(c, 'skip', keepExisting ? `El fichero existente es ${label}` : `Otro fichero del lote es ${label}`);
+        });
+        break;
+      }
+    }
+  }
+
+  return plan;
+};
+
+const samePlanned = (a: PlannedItem, b: PlannedItem) =>
+  a.targetDir === b.targetDir && a.targetName === b.targetName && a.action === b.action && a.reason === b.reason
+  && a.viaTemp === b.viaTemp && a.conflicts.length === b.conflicts.length && a.conflicts.every((c, i) => c === b.conflicts[i]);
+
+const reuseUnchanged = (plan: Map<string, PlannedItem>, previous: Map<string, PlannedItem>) => {
+  for (const [id, item] of plan) {
+    const old = previous.get(id);
+    if (old && samePlanned(old, item)) plan.set(id, old);
+  }
+  return plan;
+};
+
+/**
+ * Detecta colisiones (nombres repetidos en el lote y ficheros ya presentes en el destino)
+ * y decide qué hacer con cada fichero según la política elegida.
+ *
+ * Al renombrar en la propia carpeta, el nombre que deja un fichero del lote queda libre para otro
+ * (cadenas a→b, b→c e intercambios a↔b). Si al final ese fichero no se renombra, su nombre
+ * vuelve a estar ocupado y se planifica de nuevo.
+ *
+ * Con `previous`, los elementos que no cambian respecto al plan anterior se reutilizan tal cual
+ * para que las filas memorizadas no se vuelvan a pintar.
+ */
+export const planBatch = (candidates: BatchCandidate[], index: DestinationIndex | null, policy: ConflictPolicy, previous?: Map<string, PlannedItem>) => {
+  const renamed = candidates.filter(c => !c.skipReason && c.ownName && keyOf(c.ownName) !== keyOf(c.targetName));
+  const ownKey = (c: BatchCandidate) => joinPath(dirKey(c.targetDir, c.scope), keyOf(c.ownName!));
+  let vacated = new Set(renamed.map(ownKey));
+  for (;;) {
+    const plan = planPass(candidates, index, policy, vacated);
+    const still = new Set(renamed
+      .filter(c => {
+        const p = plan.get(c.id)!;
+        return p.action !== 'skip' && keyOf(p.targetName) !== keyOf(c.ownName!);
+      })
+      .map(ownKey));
+    if (still.size === vacated.size) return previous ? reuseUnchanged(plan, previous) : plan;
+    vacated = still;
+  }
+};
@@ -0,0 +1,93 @@
+import { BatchReport, BatchReportEntry, ErrorCause } from '../types';
+import { formatBytes, formatDuration, toCsvCell } from './fileUtils';
+
+export const ERROR_CAUSES: Record<ErrorCause, { label: string; hint: string }> = {
+  permission: { label: 'Permiso denegado', hint: 'Vuelve a conceder acceso a la carpeta o comprueba que no es de solo lectura.' },
+  invalid_name: { label: 'Nombre no válido', hint: 'Revisa el sistema destino y activa la corrección automática de nombres.' },
+  quota: { label: 'Sin espacio', hint: 'El disco de destino o la cuota del navegador está llena.' },
+  missing: { label: 'El fichero ya no existe', hint: 'Se movió o borró después de escanear; vuelve a escanear el origen.' },
+  locked: { label: 'Fichero bloqueado o modificado', hint: 'Otro programa lo está usando o cambió durante la copia.' },
+  unknown: { label: 'Otros errores', hint: 'Consulta el mensaje de cada fichero.' }
+};
+
+/**
+ * Traduce el nombre de la excepción (DOMException) o, si no es concluyente, su mensaje a una causa.
+ */
+export const classifyError = (name = '', message = ''): ErrorCause => {
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'permission';
+  if (name === 'QuotaExceededError') return 'quota';
+  if (name === 'NotFoundError') return 'missing';
+  if (name === 'NoModificationAllowedError' || name === 'NotReadableError' || name === 'InvalidStateError') return 'locked';
+  if (name === 'InvalidCharacterError' || /name is not allowed|invalid (file )?name|nombre no válido/i.test(message)) return 'invalid_name';
+  if (/quota|space/i.test(message)) return 'quota';
+  if (/permission|not allowed|denied/i.test(message)) return 'permission';
+  if (/not found|could not be found/i.test(message)) return 'missing';
+  return 'unknown';
+};
+
+export interface ReportSummary {
+  counts: Record<BatchReportEntry['outcome'], number>;
+  bytes: number; // Bytes de los ficheros completados
+  errorGroups: [ErrorCause, BatchReportEntry[]][]; // De la causa más frecuente a la menos
+}
+
+export const summarizeReport = (report: BatchReport): ReportSummary => {
+  const counts = { success: 0, error: 0, skipped: 0 };
+  const groups = new Map<ErrorCause, BatchReportEntry[]>();
+  let bytes = 0;
+  for (const e of report.entries) {
+    counts[e.outcome]++;
+    if (e.outcome === 'success') bytes += e.size;
+    if (e.outcome === 'error') {
+      const cause = e.cause ?? 'unknown';
+      groups.set(cause, [...(groups.get(cause) ?? []), e]);
+    }
+  }
+  return { counts, bytes, errorGroups: [...groups].sort((a, b) => b[1].length - a[1].length) };
+};
+
+const OUTCOME_LABELS: Record<BatchReportEntry['outcome'], string> = { success: 'Correcto', error: 'Error', skipped: 'Omitido' };
+
+const REPORT_COLUMNS = ['outcome', 'cause', 'sourcePath', 'sourceName', 'targetPath', 'targetName', 'size', 'message'] as const;
+
+const entryRow = (e: BatchReportEntry) => ({
+  ...e,
+  outcome: OUTCOME_LABELS[e.outcome],
+  cause: e.cause ? ERROR_CAUSES[e.cause].label : ''
+});
+
+export const reportToCsv = (report: BatchReport) => {
+  const rows = report.entries.map(e => {
+    const row = entryRow(e);
+    return REPORT_COLUMNS.map(c => toCsvCell(row[c])).join(',');
+  });
+  return [REPORT_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const reportToJson = (report: BatchReport) => JSON.stringify({ ...report, summary: summarizeReport(report) }, null, 2);
+
+const escapeHtml = (text: unknown) => String(text ?? '').replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+/**
+ * Informe en una página HTML independiente, con el resumen y la tabla de ficheros.
+ */
+export const reportToHtml = (report: BatchReport) => {
+  const summary = summarizeReport(report);
+  const rows = report.entries.map(e => {
+    const row = entryRow(e);
+    return `<tr class="${e.outcome}">${REPORT_COLUMNS.map(c => `<td>${escapeHtml(row[c])}</td>`).join('')}</tr>`;
+  }).join('\n');
+  const causes = summary.errorGroups.map(([cause, list]) => `<li><b>${escapeHtml(ERROR_CAUSES[cause].label)}</b>: ${list.length} — ${escapeHtml(ERROR_CAUSES[cause].hint)}</li>`).join('');
+  return `<!DOCTYPE html>
+<html lang="es"><head><meta charset="utf-8"><title>Informe GA-Archivos</title>
+<style>body{font:13px system-ui,sans-serif;margin:24px;color:#1e293b}table{border-collapse:collapse;width:100%}td,th{border:1px solid #e2e8f0;padding:3px 6px;text-align:left}th{background:#f1f5f9}tr.error td{background:#fff1f2}tr.skipped td{color:#64748b}</style>
+</head><body>
+<h1>Informe del lote</h1>
+<p>${escapeHtml(new Date(report.startedAt).toLocaleString())} · ${escapeHtml(formatDuration(report.activeMs / 1000))}${report.cancelled ? ' · Cancelado' : ''}</p>
+<p>Correctos: <b>${summary.counts.success}</b> · Errores: <b>${summary.counts.error}</b> · Omitidos: <b>${summary.counts.skipped}</b> · ${escapeHtml(formatBytes(summary.bytes))}</p>
+${causes ? `<ul>${causes}</ul>` : ''}
+<table><thead><tr>${REPORT_COLUMNS.map(c => `<th>${c}</th>`).join('')}</tr></thead><tbody>
+${rows}
+</tbody></table>
+</body></html>`;
+};
@@ -0,0 +1,48 @@
+export interface PauseGate {
+  pause: () => void;
+  resume: () => void;
+  wait: () => Promise<void>;
+  isPaused: () => boolean;
+}
+
+/**
+ * Barrera para pausar un proceso: mientras está en pausa `wait()` no se resuelve.
+ */
+export const createPauseGate = (): PauseGate => {
+  let paused: Promise<void> | null = null;
+  let release: (() => void) | null = null;
+  return {
+    pause: () => {
+      if (!paused) paused = new Promise(resolve => { release = resolve; });
+    },
+    resume: () => {
+      release?.();
+      paused = release = null;
+    },
+    wait: () => paused ?? Promise.resolve(),
+    isPaused: () => paused !== null
+  };
+};
+
+/**
+ * Ejecuta `task` sobre los elementos con como mucho `concurrency` tareas a la vez.
+ * Antes de empezar cada una espera a la barrera de pausa; tras cancelar no empieza ninguna más.
+ */
+export const runPool = async <T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<void>,
+  gate?: PauseGate,
+  signal?: AbortSignal
+) => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length) {
+      await gate?.wait();
+      if (signal?.aborted) return;
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+};
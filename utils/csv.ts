@@ -0,0 +1,49 @@
+import { toCsvCell } from './fileUtils';
+
+/**
+ * Detecta el separador más probable mirando la primera línea: tabulador (celdas copiadas
+ * de Excel), punto y coma (CSV en configuración regional española) o coma.
+ */
+export const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = ['\t', ';', ','].map(d => [d, firstLine.split(d).length - 1] as const);
+  const best = counts.reduce((a, b) => b[1] > a[1] ? b : a);
+  return best[1] > 0 ? best[0] : ',';
+};
+
+/**
+ * Convierte texto CSV/TSV en filas de celdas. Respeta comillas dobles (con "" como escape
+ * y saltos de línea dentro de la celda) y descarta las filas vacías.
+ */
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') quoted = true;
+    else if (ch === delimiter) { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += ch;
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+/**
+ * Genera un CSV separado por comas con BOM para que Excel detecte UTF-8.
+ */
+export const toCsv = (rows: unknown[][]) => '\uFEFF' + rows.map(r => r.map(toCsvCell).join(',')).join('\r\n');
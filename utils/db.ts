@@ -0,0 +1,51 @@
+
+const DB_NAME = 'ga-archivos';
+const DB_VERSION = 2;
+
+export const STORE_JOURNAL = 'journal';
+export const STORE_HANDLES = 'handles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_JOURNAL)) db.createObjectStore(STORE_JOURNAL, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORE_HANDLES)) db.createObjectStore(STORE_HANDLES, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: string, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Guarda (o reemplaza) un registro en el almacén indicado.
+ */
+export const dbPut = <T>(store: string, value: T) => run(store, 'readwrite', s => s.put(value));
+
+/**
+ * Devuelve todos los registros de un almacén.
+ */
+export const dbGetAll = <T>(store: string) => run<T[]>(store, 'readonly', s => s.getAll());
+
+/**
+ * Elimina un registro por su clave.
+ */
+export const dbDelete = (store: string, key: IDBValidKey) => run(store, 'readwrite', s => s.delete(key));
@@ -0,0 +1,47 @@
+import { FileItem, GlobalConfig, TargetProfile } from '../types';
+import { NameIssue, sanitizeFileName, validateFileName } from './filenameValidation';
+import { NameContext, renderTemplate } from './naming';
+
+export const FOLDER_TEMPLATE_EXAMPLES: { label: string; template: string }[] = [
+  { label: 'Año / mes', template: '{yyyy}/{MM}' },
+  { label: 'Año / mes / día', template: '{yyyy}/{MM}/{dd}' },
+  { label: 'Fecha de captura', template: '{taken:yyyy}/{taken:MM}' },
+  { label: 'Categoría', template: '{category}' },
+  { label: 'Extensión', template: '{ext}' },
+  { label: 'Grupo de la expresión', template: '{match:1}' },
+  { label: 'Columna del mapeo', template: '{col:carpeta}' }
+];
+
+/**
+ * Carpeta relativa de destino según la plantilla de carpetas. Los segmentos vacíos, "." y ".."
+ * se descartan (un token sin valor deja el fichero en la carpeta superior) y, con la corrección
+ * automática activada, cada segmento se adapta al sistema de destino.
+ */
+export const buildTargetDir = (f: FileItem, config: GlobalConfig, ctx: NameContext) => {
+  return renderTemplate(config.folderTemplate, f, config, ctx)
+    .split(/[\\/]/)
+    .map(part => part.trim())
+    .filter(part => part && part !== '.' && part !== '..')
+    .map(part => config.sanitizeMode === 'off' ? part : sanitizeFileName(part, config.targetProfile, config.sanitizeMode, config.sanitizeReplacement))
+    .join('/');
+};
+
+/**
+ * Valida cada carpeta de una ruta relativa con las reglas de nombres del sistema de destino.
+ */
+export const validateFolderPath = (path: string, profile: TargetProfile): NameIssue[] =>
+  path.split('/').filter(Boolean).flatMap(part =>
+    validateFileName(part, profile).map(issue => ({ ...issue, message: `Carpeta «${part}»: ${issue.message}` }))
+  );
+
+/**
+ * Devuelve el error de la expresión regular de carpetas, o null si es válida.
+ */
+export const validateFolderPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (e) {
+    return `Expresión de carpetas no válida: ${(e as Error).message}`;
+  }
+};
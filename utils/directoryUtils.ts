@@ -0,0 +1,76 @@
+
+export interface WalkedFile {
+  handle: FileSystemFileHandle;
+  parent: FileSystemDirectoryHandle;
+  relativePath: string;
+}
+
+/**
+ * Une segmentos de ruta relativa ignorando los vacíos.
+ */
+export const joinPath = (...parts: string[]) => {
+  return parts.filter(p => p !== '').join('/');
+};
+
+/**
+ * Recorre un directorio devolviendo sus ficheros. Con maxDepth = 0 solo lee la raíz;
+ * con maxDepth = Infinity baja por todas las subcarpetas.
+ */
+export async function* walkDirectory(
+  root: FileSystemDirectoryHandle,
+  maxDepth: number,
+  relativePath = '',
+  depth = 0
+): AsyncGenerator<WalkedFile> {
+  for await (const entry of (root as any).values()) {
+    if (entry.kind === 'file') {
+      yield { handle: entry as FileSystemFileHandle, parent: root, relativePath };
+    } else if (entry.kind === 'directory' && depth < maxDepth) {
+      yield* walkDirectory(entry as FileSystemDirectoryHandle, maxDepth, joinPath(relativePath, entry.name), depth + 1);
+    }
+  }
+}
+
+/**
+ * Devuelve una función que resuelve (y crea si hace falta) subcarpetas bajo la raíz,
+ * cacheando los handles para no repetir llamadas durante un mismo lote.
+ */
+export const createDirectoryResolver = (root: FileSystemDirectoryHandle) => {
+  const cache = new Map<string, Promise<FileSystemDirectoryHandle>>([['', Promise.resolve(root)]]);
+
+  const resolve = (relativePath: string): Promise<FileSystemDirectoryHandle> => {
+    const cached = cache.get(relativePath);
+    if (cached) return cached;
+    const cut = relativePath.lastIndexOf('/');
+    const parentPath = cut === -1 ? '' : relativePath.substring(0, cut);
+    const name = relativePath.substring(cut + 1);
+    const pending = resolve(parentPath).then(parent => parent.getDirectoryHandle(name, { create: true }));
+    cache.set(relativePath, pending);
+    pending.catch(() => cache.delete(relativePath));
+    return pending;
+  };
+
+  return resolve;
+};
+
+/**
+ * Comprueba el permiso de lectura/escritura sobre un handle y lo solicita si ha caducado.
+ * Debe llamarse desde un gesto del usuario para que el navegador muestre el aviso.
+ */
+export const verifyPermission = async (handle: FileSystemHandle, readWrite = true) => {
+  const options = { mode: readWrite ? 'readwrite' : 'read' };
+  if ((await (handle as any).queryPermission(options)) === 'granted') return true;
+  return (await (handle as any).requestPermission(options)) === 'granted';
+};
+
+/**
+ * Indica si una carpeta contiene un fichero con ese nombre.
+ */
+export const fileExists = async (dir: FileSystemDirectoryHandle, name: string) => {
+  try {
+    await dir.getFileHandle(name);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
@@ -0,0 +1,108 @@
+import { FileItem } from '../types';
+import { getBaseName, getExtension } from './fileUtils';
+import { joinPath } from './directoryUtils';
+
+/** El navegador permite abrir carpetas con permiso de escritura (Chrome, Edge, Opera). */
+export const HAS_FS_ACCESS = typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+/** Origen de la carpeta elegida con el selector; los arrastres añadidos tienen su propio id. */
+export const MAIN_SOURCE = 'main';
+
+export interface FileSource {
+  id: string;
+  name: string;
+}
+
+// Fichero leído sin File System Access: solo lectura, con su carpeta relativa a la raíz elegida
+export interface LooseFile {
+  file: File;
+  relativePath: string;
+}
+
+export type FileSourceFields = Pick<FileItem, 'sourceId' | 'sourceName' | 'relativePath' | 'originalName' | 'size' | 'lastModified' | 'type' | 'handle' | 'parentHandle' | 'file'>;
+
+/**
+ * Crea la fila de la tabla para un fichero, venga de un handle o de un File suelto.
+ */
+export const createFileItem = (source: FileSourceFields): FileItem => ({
+  id: crypto.randomUUID(),
+  ...source,
+  customBaseName: getBaseName(source.originalName),
+  prefix: '', suffix: '', extension: getExtension(source.originalName), template: '', excluded: false,
+  status: 'pending'
+});
+
+export const looseFileFields = ({ file, relativePath }: LooseFile, source: FileSource): FileSourceFields => ({
+  file, sourceId: source.id, sourceName: source.name, relativePath, originalName: file.name, size: file.size, lastModified: file.lastModified, type: file.type
+});
+
+/**
+ * Contenido de un fichero, tanto si se tiene su handle como si solo se tiene el File.
+ */
+export const readFile = (f: Pick<FileItem, 'handle' | 'file'>): Promise<File> => {
+  if (f.handle) return f.handle.getFile();
+  if (f.file) return Promise.resolve(f.file);
+  return Promise.reject(new Error('Fichero sin origen'));
+};
+
+/**
+ * Ficheros de un <input webkitdirectory>: el primer segmento de webkitRelativePath es la carpeta elegida.
+ */
+export const looseFilesFromInput = (list: FileList) => {
+  const files = Array.from(list);
+  const root = files[0]?.webkitRelativePath.split('/')[0] ?? '';
+  const loose = files.map(file => {
+    const parts = file.webkitRelativePath.split('/').slice(1, -1);
+    return { file, relativePath: parts.join('/') };
+  });
+  return { root, files: loose };
+};
+
+const readAllEntries = async (dir: FileSystemDirectoryEntry) => {
+  const reader = dir.createReader();
+  const all: FileSystemEntry[] = [];
+  // readEntries entrega los hijos por tandas (unos 100) hasta devolver una vacía
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return all;
+    all.push(...batch);
+  }
+};
+
+// Como walkDirectory: los ficheros de una carpeta soltada están a profundidad 0
+const walkEntry = async (entry: FileSystemEntry, relativePath: string, out: LooseFile[], maxDepth: number, depth = 0) => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({ file, relativePath });
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      if (child.isFile) await walkEntry(child, relativePath, out, maxDepth, depth);
+      else if (depth < maxDepth) await walkEntry(child, joinPath(relativePath, child.name), out, maxDepth, depth + 1);
+    }
+  }
+};
+
+/**
+ * Ficheros de un arrastre (carpetas incluidas) mediante webkitGetAsEntry. Si se suelta una sola
+ * carpeta, esa es la raíz; con varios elementos la raíz es el propio arrastre. Dentro de cada
+ * carpeta soltada se baja como mucho `maxDepth` niveles.
+ */
+export const looseFilesFromDrop = async (items: DataTransferItemList, maxDepth: number) => {
+  const entries = Array.from(items).map(item => item.webkitGetAsEntry()).filter((e): e is FileSystemEntry => !!e);
+  const single = entries.length === 1 && entries[0].isDirectory;
+  const files: LooseFile[] = [];
+  for (const entry of entries) {
+    await walkEntry(entry, single || entry.isFile ? '' : entry.name, files, maxDepth);
+  }
+  return { root: single ? entries[0].name : 'Arrastrados', files };
+};
+
+/**
+ * Handles de lo arrastrado. getAsFileSystemHandle solo funciona durante el evento drop,
+ * así que se piden todos antes del primer await.
+ */
+export const droppedHandles = (items: DataTransferItemList) => Promise.all(
+  Array.from(items)
+    .filter(item => item.kind === 'file')
+    .map(item => (item as any).getAsFileSystemHandle() as Promise<FileSystemHandle | null>)
+).then(handles => handles.filter((h): h is FileSystemHandle => !!h));
@@ -11,6 +11,17 @@ export const formatBytes = (bytes: number, decimals = 2) => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 };
 
+/**
+ * Formatea una duración en segundos como h:mm:ss o m:ss.
+ */
+export const formatDuration = (seconds: number) => {
+  const s = Math.max(0, Math.round(seconds));
+  const h = Math.floor(s / 3600);
+  const mm = String(Math.floor((s % 3600) / 60)).padStart(h ? 2 : 1, '0');
+  const ss = String(s % 60).padStart(2, '0');
+  return h ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
 /**
  * Obtiene la extensión de un nombre de archivo.
  */
@@ -25,3 +36,70 @@ export const getBaseName = (filename: string) => {
   const lastDot = filename.lastIndexOf(".");
   return lastDot === -1 ? filename : filename.substring(0, lastDot);
 };
+
+// Carpeta de cada categoría y extensiones que no se deducen del tipo MIME
+const FILE_CATEGORIES: { name: string; mime: RegExp; extensions: string[] }[] = [
+  { name: 'Imágenes', mime: /^image\//, extensions: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'heif', 'tif', 'tiff', 'bmp', 'svg', 'raw', 'cr2', 'nef', 'arw', 'dng'] },
+  { name: 'Vídeos', mime: /^video\//, extensions: ['mp4', 'mov', 'm4v', 'avi', 'mkv', 'webm', 'wmv', '3gp'] },
+  { name: 'Audio', mime: /^audio\//, extensions: ['mp3', 'm4a', 'aac', 'wav', 'flac', 'ogg', 'opus', 'wma'] },
+  { name: 'Hojas de cálculo', mime: /spreadsheet|excel|csv/, extensions: ['xls', 'xlsx', 'ods', 'csv', 'tsv', 'numbers'] },
+  { name: 'Presentaciones', mime: /presentation|powerpoint/, extensions: ['ppt', 'pptx', 'odp', 'key'] },
+  { name: 'Documentos', mime: /^text\/plain$|pdf|msword|wordprocessing|opendocument\.text|rtf/, extensions: ['pdf', 'doc', 'docx', 'odt', 'rtf', 'txt', 'md', 'pages'] },
+  { name: 'Comprimidos', mime: /zip|compressed|x-tar|gzip|x-7z|x-rar/, extensions: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz'] }
+];
+
+/**
+ * Categoría de un fichero (Imágenes, Documentos, Audio...) según su extensión o, si no se
+ * reconoce, su tipo MIME. Lo que no encaja en ninguna va a "Otros".
+ */
+export const fileCategory = (name: string, type: string) => {
+  const ext = getExtension(name).toLowerCase();
+  const byExt = ext && FILE_CATEGORIES.find(c => c.extensions.includes(ext));
+  if (byExt) return byExt.name;
+  return FILE_CATEGORIES.find(c => type && c.mime.test(type))?.name ?? 'Otros';
+};
+
+export type PreviewKind = 'image' | 'pdf' | 'text' | 'audio' | 'video';
+
+// Formatos que el navegador sabe pintar por sí mismo (HEIC, TIFF o RAW no)
+const PREVIEW_EXTENSIONS: Record<PreviewKind, string[]> = {
+  image: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'bmp', 'svg', 'ico'],
+  pdf: ['pdf'],
+  text: ['txt', 'md', 'csv', 'tsv', 'json', 'xml', 'html', 'log', 'ini', 'yml', 'yaml'],
+  audio: ['mp3', 'm4a', 'aac', 'wav', 'flac', 'ogg', 'opus'],
+  video: ['mp4', 'm4v', 'webm', 'mov', 'ogv']
+};
+
+/**
+ * Cómo se puede previsualizar un fichero en el navegador, o null si no se puede.
+ */
+export const previewKind = (name: string, type: string): PreviewKind | null => {
+  const ext = getExtension(name).toLowerCase();
+  const byExt = (Object.keys(PREVIEW_EXTENSIONS) as PreviewKind[]).find(k => PREVIEW_EXTENSIONS[k].includes(ext));
+  if (byExt) return byExt;
+  if (type === 'application/pdf') return 'pdf';
+  if (type.startsWith('text/') || type === 'application/json') return 'text';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type.startsWith('video/')) return 'video';
+  return null;
+};
+
+/**
+ * Descarga un contenido generado en memoria como fichero.
+ */
+export const downloadBlob = (content: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Escapa un valor para una celda CSV.
+ */
+export const toCsvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",;\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
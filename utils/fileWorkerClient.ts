@@ -0,0 +1,91 @@
+import { BatchMode } from '../types';
+import { BatchTask, ScannedEntry, TaskOutcome, TransferProgress, WorkerEvent, WorkerRequest } from '../workers/protocol';
+import { OperationResult } from './batchExecutor';
+
+export const SCAN_CONCURRENCY = 8;
+export const BATCH_CONCURRENCY = 4;
+
+const createWorker = () => new Worker(new URL('../workers/fileWorker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Escanea la carpeta en un worker. Las entradas llegan por tandas a `onBatch`.
+ */
+export const scanInWorker = (root: FileSystemDirectoryHandle, maxDepth: number, onBatch: (entries: ScannedEntry[]) => void) => {
+  const worker = createWorker();
+  return new Promise<void>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<WorkerEvent>) => {
+      const event = e.data;
+      if (event.type === 'scan-batch') onBatch(event.entries);
+      else if (event.type === 'scan-done') resolve();
+      else if (event.type === 'error') reject(new Error(event.message));
+    };
+    worker.onerror = e => reject(new Error(e.message));
+    worker.postMessage({ type: 'scan', root, maxDepth, concurrency: SCAN_CONCURRENCY } satisfies WorkerRequest);
+  }).finally(() => worker.terminate());
+};
+
+export interface TaskResult {
+  id: string;
+  outcome: TaskOutcome;
+  result?: OperationResult;
+  error?: string;
+  errorName?: string; // Nombre de la excepción (NotAllowedError, QuotaExceededError...)
+}
+
+export interface BatchJob {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  done: Promise<TransferProgress>;
+}
+
+/**
+ * Lanza el lote en un worker con un máximo de `BATCH_CONCURRENCY` ficheros a la vez.
+ */
+export const runBatchInWorker = (
+  tasks: BatchTask[],
+  mode: BatchMode,
+  destRoot: FileSystemDirectoryHandle | null,
+  handlers: {
+    onStarted: (ids: string[]) => void;
+    onResults: (results: TaskResult[]) => void;
+    onProgress: (progress: TransferProgress) => void;
+  }
+): BatchJob => {
+  const worker = createWorker();
+  const send = (request: WorkerRequest) => worker.postMessage(request);
+  const done = new Promise<TransferProgress>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<WorkerEvent>) => {
+      const event = e.data;
+      switch (event.type) {
+        case 'started': return handlers.onStarted(event.ids);
+        case 'results': return handlers.onResults(event.results);
+        case 'progress': return handlers.onProgress(event.progress);
+        case 'batch-done': return resolve(event.progress);
+        case 'error': return reject(new Error(event.message));
+      }
+    };
+    worker.onerror = e => reject(new Error(e.message));
+    send({ type: 'batch', tasks, mode, destRoot, concurrency: BATCH_CONCURRENCY });
+  }).finally(() => worker.terminate());
+
+  return {
+    pause: () => send({ type: 'pause' }),
+    resume: () => send({ type: 'resume' }),
+    cancel: () => send({ type: 'cancel' }),
+    done
+  };
+};
+
+/**
+ * Velocidades medias y tiempo restante estimado de un lote.
+ */
+export const transferRates = (p: TransferProgress) => {
+  const seconds = p.elapsedMs / 1000;
+  const bytesPerSecond = seconds > 0 ? p.doneBytes / seconds : 0;
+  const filesPerSecond = seconds > 0 ? p.doneFiles / seconds : 0;
+  const remaining = p.totalBytes - p.doneBytes;
+  const etaSeconds = bytesPerSecond > 0 ? remaining / bytesPerSecond
+    : filesPerSecond > 0 ? (p.totalFiles - p.doneFiles) / filesPerSecond : null;
+  return { bytesPerSecond, filesPerSecond, etaSeconds };
+};
@@ -0,0 +1,109 @@
+import { TargetProfile } from '../types';
+import { getBaseName, getExtension } from './fileUtils';
+
+export interface NameIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+interface ProfileRules {
+  label: string;
+  forbidden: RegExp; // Caracteres que el sistema rechaza
+  risky?: RegExp; // Caracteres admitidos pero problemáticos
+  reservedNames: boolean; // CON, NUL, COM1...
+  trailingDotSpace: boolean; // Punto o espacio final no permitidos
+  maxLength: number;
+  lengthUnit: 'utf16' | 'utf8';
+  maxFileSize?: number;
+  reservedFiles?: Set<string>;
+}
+
+// Caracteres de control (0-31) y los prohibidos por Windows
+const WINDOWS_FORBIDDEN = /[<>:"/\\|?*\u0000-\u001f]/g;
+
+export const TARGET_PROFILES: Record<TargetProfile, ProfileRules> = {
+  windows: { label: 'Windows / NTFS', forbidden: WINDOWS_FORBIDDEN, reservedNames: true, trailingDotSpace: true, maxLength: 255, lengthUnit: 'utf16' },
+  macos: { label: 'macOS (APFS)', forbidden: /[/\u0000]/g, risky: /:/g, reservedNames: false, trailingDotSpace: false, maxLength: 255, lengthUnit: 'utf8' },
+  linux: { label: 'Linux (ext4)', forbidden: /[/\u0000]/g, reservedNames: false, trailingDotSpace: false, maxLength: 255, lengthUnit: 'utf8' },
+  fat32: {
+    label: 'FAT32 (USB, tarjetas)', forbidden: WINDOWS_FORBIDDEN, reservedNames: true, trailingDotSpace: true,
+    maxLength: 255, lengthUnit: 'utf16', maxFileSize: 4 * 1024 * 1024 * 1024 - 1
+  },
+  cloud: {
+    label: 'Nube (OneDrive, Dropbox, Drive)', forbidden: WINDOWS_FORBIDDEN, risky: /[#%~]/g, reservedNames: true, trailingDotSpace: true,
+    maxLength: 255, lengthUnit: 'utf16', reservedFiles: new Set(['desktop.ini', 'thumbs.db', '.ds_store', '.lock', 'icon\r'])
+  }
+};
+
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9¹²³]|lpt[0-9¹²³])$/i;
+
+/**
+ * Longitud de un nombre en la unidad que limita el sistema de archivos.
+ */
+export const nameLength = (name: string, unit: ProfileRules['lengthUnit']) =>
+  unit === 'utf8' ? new TextEncoder().encode(name).length : name.length;
+
+const describeChars = (matches: string[]) =>
+  [...new Set(matches)].map(c => c.charCodeAt(0) < 32 ? `\\x${c.charCodeAt(0).toString(16).padStart(2, '0')}` : c).join(' ');
+
+/**
+ * Comprueba un nombre de fichero (o de carpeta) contra las reglas del sistema de destino.
+ */
+export const validateFileName = (name: string, profile: TargetProfile, size?: number): NameIssue[] => {
+  const rules = TARGET_PROFILES[profile];
+  const issues: NameIssue[] = [];
+  const error = (message: string) => issues.push({ severity: 'error', message });
+  const warning = (message: string) => issues.push({ severity: 'warning', message });
+
+  if (name === '' || name === '.' || name === '..') {
+    error('Nombre vacío o reservado');
+    return issues;
+  }
+  const forbidden = name.match(rules.forbidden);
+  if (forbidden) error(`Caracteres no permitidos: ${describeChars(forbidden)}`);
+  const risky = rules.risky && name.match(rules.risky);
+  if (risky) warning(`Caracteres problemáticos: ${describeChars(risky)}`);
+  if (rules.reservedNames && RESERVED_NAMES.test(name.split('.')[0].trim())) error(`"${name.split('.')[0]}" es un nombre reservado`);
+  if (rules.trailingDotSpace && /[. ]$/.test(name)) error('Termina en punto o espacio');
+  if (/^\s/.test(name)) warning('Empieza por espacio');
+  if (!rules.trailingDotSpace && /\s$/.test(name)) warning('Termina en espacio');
+  if (rules.reservedFiles?.has(name.toLowerCase())) error('Nombre que el servicio de sincronización no admite');
+  const length = nameLength(name, rules.lengthUnit);
+  if (length > rules.maxLength) error(`Demasiado largo: ${length} ${rules.lengthUnit === 'utf8' ? 'bytes' : 'caracteres'} (máx. ${rules.maxLength})`);
+  if (name !== name.normalize('NFC')) warning('Unicode no normalizado (NFC): puede duplicarse al sincronizar');
+  if (name.startsWith('.') && profile !== 'windows' && profile !== 'fat32') warning('Empieza por punto: quedará oculto');
+  if (rules.maxFileSize !== undefined && size !== undefined && size > rules.maxFileSize) error('FAT32 no admite ficheros de más de 4 GB');
+  return issues;
+};
+
+/**
+ * Recorta el nombre sin partir caracteres hasta que quepa en el límite, conservando la extensión.
+ */
+const truncateName = (name: string, rules: ProfileRules) => {
+  if (nameLength(name, rules.lengthUnit) <= rules.maxLength) return name;
+  const ext = getExtension(name);
+  const suffix = ext ? `.${ext}` : '';
+  const chars = [...(ext ? getBaseName(name) : name)];
+  while (chars.length > 1 && nameLength(chars.join('') + suffix, rules.lengthUnit) > rules.maxLength) chars.pop();
+  return chars.join('') + suffix;
+};
+
+/**
+ * Corrige un nombre para el sistema de destino: normaliza a NFC, sustituye (o elimina) los caracteres
+ * no permitidos, quita puntos y espacios finales, evita nombres reservados y recorta la longitud.
+ */
+export const sanitizeFileName = (name: string, profile: TargetProfile, mode: 'replace' | 'strip', replacement = '_') => {
+  const rules = TARGET_PROFILES[profile];
+  // El sustituto también debe ser válido
+  const safe = mode === 'strip' || replacement.match(rules.forbidden) ? '' : replacement;
+  const fallback = mode === 'replace' ? (safe || '_') : '';
+  let result = name.normalize('NFC').replace(rules.forbidden, fallback);
+  if (rules.trailingDotSpace) result = result.replace(/[. ]+$/, '');
+  result = result.trim();
+  if (rules.reservedNames) {
+    const [stem, ...rest] = result.split('.');
+    if (RESERVED_NAMES.test(stem)) result = [`${stem}_`, ...rest].join('.');
+  }
+  if (result === '' || result === '.' || result === '..') result = 'sin_nombre';
+  return truncateName(result, rules);
+};
@@ -0,0 +1,207 @@
+import { FileItem, FilterCondition, FilterField, FilterGroup, FilterOperator, FilterState, SearchMode } from '../types';
+import { getExtension } from './fileUtils';
+import { cameraName } from './metadata';
+import { escapeRegExp } from './renameRules';
+
+export const TEXT_OPERATORS: FilterOperator[] = ['contains', 'not_contains', 'equals', 'not_equals', 'starts', 'ends', 'glob', 'regex'];
+export const RANGE_OPERATORS: FilterOperator[] = ['gt', 'lt'];
+export const METADATA_FIELDS: FilterField[] = ['taken', 'camera', 'title', 'author', 'gps'];
+
+export const operatorsFor = (field: FilterField): FilterOperator[] => {
+  if (field === 'size' || field === 'date' || field === 'taken') return RANGE_OPERATORS;
+  if (field === 'status' || field === 'gps') return ['equals', 'not_equals'];
+  return TEXT_OPERATORS;
+};
+
+// Ficheros que crean los sistemas operativos y las aplicaciones de oficina
+const SYSTEM_FILES = new Set(['thumbs.db', 'desktop.ini', '.ds_store', 'ehthumbs.db', 'icon\r', '$recycle.bin']);
+
+/**
+ * Indica si un fichero es oculto (empieza por punto, o está en una carpeta oculta) o de sistema.
+ */
+export const isHiddenFile = (f: Pick<FileItem, 'originalName' | 'relativePath'>) => {
+  const name = f.originalName.toLowerCase();
+  if (name.startsWith('.') || name.startsWith('~$') || SYSTEM_FILES.has(name)) return true;
+  return f.relativePath.split('/').some(part => part.startsWith('.') || SYSTEM_FILES.has(part.toLowerCase()));
+};
+
+/**
+ * Convierte un patrón glob (*, ?, [abc], {a,b}) en expresión regular que cubre el texto completo.
+ */
+export const globToRegExp = (glob: string) => {
+  let pattern = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') pattern += '.*';
+    else if (ch === '?') pattern += '.';
+    else if (ch === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) pattern += '\\[';
+      else {
+        pattern += '[' + glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+        i = close;
+      }
+    } else if (ch === '{') { pattern += '(?:'; inGroup = true; }
+    else if (ch === '}' && inGroup) { pattern += ')'; inGroup = false; }
+    else if (ch === ',' && inGroup) pattern += '|';
+    else pattern += escapeRegExp(ch);
+  }
+  return new RegExp(`^${pattern}$`, 'i');
+};
+
+/**
+ * Construye la función de coincidencia de un texto de búsqueda. Lanza si el patrón no es válido.
+ */
+export const compileMatcher = (query: string, mode: SearchMode): ((text: string) => boolean) => {
+  if (mode === 'regex') {
+    const re = new RegExp(query, 'i');
+    return text => re.test(text);
+  }
+  if (mode === 'glob') {
+    // Sin comodines se busca como subcadena, igual que en modo texto
+    const re = /[*?[{]/.test(query) ? globToRegExp(query) : globToRegExp(`*${query}*`);
+    return text => re.test(text);
+  }
+  const needle = query.toLowerCase();
+  return text => text.toLowerCase().includes(needle);
+};
+
+const fieldText = (f: FileItem, field: FilterField) => {
+  switch (field) {
+    case 'name': return f.originalName;
+    case 'path': return f.relativePath;
+    case 'ext': return getExtension(f.originalName);
+    case 'type': return f.type;
+    case 'status': return f.status;
+    case 'camera': return cameraName(f.metadata);
+    case 'title': return f.metadata?.title ?? '';
+    case 'author': return f.metadata?.author ?? '';
+    case 'gps': return f.metadata?.hasGps ? 'si' : 'no';
+    default: return '';
+  }
+};
+
+/**
+ * Evalúa una condición avanzada sobre un fichero.
+ */
+export const matchesCondition = (f: FileItem, c: FilterCondition): boolean => {
+  if (c.field === 'size') {
+    const kb = parseFloat(c.value);
+    if (isNaN(kb)) return true;
+    return c.operator === 'gt' ? f.size > kb * 1024 : f.size < kb * 1024;
+  }
+  if (c.field === 'date' || c.field === 'taken') {
+    if (!c.value) return true;
+    // Sin fecha de captura (metadatos no leídos o inexistentes) el fichero no cumple
+    const time = c.field === 'date' ? f.lastModified : f.metadata?.captureDate;
+    if (time === undefined) return false;
+    return c.operator === 'gt'
+      ? time > new Date(c.value + 'T23:59:59').getTime()
+      : time < new Date(c.value + 'T00:00:00').getTime();
+  }
+  const text = fieldText(f, c.field);
+  const value = c.value;
+  switch (c.operator) {
+    case 'contains': return text.toLowerCase().includes(value.toLowerCase());
+    case 'not_contains': return !text.toLowerCase().includes(value.toLowerCase());
+    case 'equals': return text.toLowerCase() === value.toLowerCase();
+    case 'not_equals': return text.toLowerCase() !== value.toLowerCase();
+    case 'starts': return text.toLowerCase().startsWith(value.toLowerCase());
+    case 'ends': return text.toLowerCase().endsWith(value.toLowerCase());
+    case 'glob':
+    case 'regex':
+      try {
+        return (c.operator === 'glob' ? globToRegExp(value) : new RegExp(value, 'i')).test(text);
+      } catch (e) {
+        return true;
+      }
+    default: return true;
+  }
+};
+
+const matchesGroup = (f: FileItem, group: FilterGroup) => {
+  if (group.conditions.length === 0) return true;
+  return group.join === 'and'
+    ? group.conditions.every(c => matchesCondition(f, c))
+    : group.conditions.some(c => matchesCondition(f, c));
+};
+
+/**
+ * Devuelve los errores de los filtros (patrones no válidos).
+ */
+export const validateFilters = (filters: FilterState): string[] => {
+  const errors: string[] = [];
+  if (filters.search && filters.searchMode !== 'text') {
+    try {
+      compileMatcher(filters.search, filters.searchMode);
+    } catch (e: any) {
+      errors.push(`Búsqueda: ${e.message}`);
+    }
+  }
+  filters.groups.forEach((g, gi) => g.conditions.forEach((c, ci) => {
+    if (c.operator !== 'regex' && c.operator !== 'glob') return;
+    try {
+      if (c.operator === 'glob') globToRegExp(c.value);
+      else new RegExp(c.value);
+    } catch (e: any) {
+      errors.push(`Grupo ${gi + 1}, condición ${ci + 1}: ${e.message}`);
+    }
+  }));
+  return errors;
+};
+
+/**
+ * Crea el predicado que combina todos los filtros: los rápidos siempre con AND y los grupos
+ * avanzados entre sí según `groupJoin`. `duplicateIds` son los ficheros con contenido repetido.
+ */
+export const createFileFilter = (filters: FilterState, duplicateIds: Set<string> = new Set()) => {
+  let search: ((text: string) => boolean) | null = null;
+  if (filters.search) {
+    try {
+      search = compileMatcher(filters.search, filters.searchMode);
+    } catch (e) {
+      search = null;
+    }
+  }
+  const start = filters.dateStart ? new Date(filters.dateStart + 'T00:00:00').getTime() : null;
+  const end = filters.dateEnd ? new Date(filters.dateEnd + 'T23:59:59').getTime() : null;
+  const minBytes = filters.minSize > 0 ? filters.minSize * 1024 : null;
+  const maxBytes = filters.maxSize === '' ? null : filters.maxSize * 1024;
+  const extensions = new Set(filters.extensions.map(e => e.toLowerCase()));
+  const types = new Set(filters.types);
+  const statuses = new Set(filters.statuses);
+  const path = filters.path.toLowerCase();
+  const groups = filters.groups.filter(g => g.conditions.length > 0);
+
+  return (f: FileItem) => {
+    if (search && search(f.originalName) === filters.searchExclude) return false;
+    if (path && !f.relativePath.toLowerCase().includes(path)) return false;
+    if (start !== null && f.lastModified < start) return false;
+    if (end !== null && f.lastModified > end) return false;
+    if (minBytes !== null && f.size < minBytes) return false;
+    if (maxBytes !== null && f.size > maxBytes) return false;
+    if (extensions.size && !extensions.has(getExtension(f.originalName).toLowerCase())) return false;
+    if (types.size && !types.has(f.type || '')) return false;
+    if (statuses.size && !statuses.has(f.status)) return false;
+    if (filters.hideHidden && isHiddenFile(f)) return false;
+    if (filters.duplicatesOnly && !duplicateIds.has(f.id)) return false;
+    if (groups.length) {
+      const ok = filters.groupJoin === 'and' ? groups.every(g => matchesGroup(f, g)) : groups.some(g => matchesGroup(f, g));
+      if (!ok) return false;
+    }
+    return true;
+  };
+};
+
+/**
+ * Cuenta los valores distintos de un campo entre los ficheros escaneados (para los selectores múltiples).
+ */
+export const collectFacets = (files: FileItem[], get: (f: FileItem) => string) => {
+  const counts = new Map<string, number>();
+  files.forEach(f => {
+    const key = get(f);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+};
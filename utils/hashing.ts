@@ -0,0 +1,129 @@
+import { joinPath, walkDirectory } from './directoryUtils';
+
+export interface HashTarget {
+  key: string;
+  size: number;
+  getFile: () => Promise<File>;
+  hash?: string; // Resultado de un cálculo anterior ('' = no tenía pareja); sin valor = por calcular
+}
+
+export interface HashProgress {
+  phase: 'partial' | 'full';
+  done: number;
+  total: number;
+}
+
+// Hash de contenido -> rutas en el destino
+export type ContentIndex = Map<string, string[]>;
+
+const PARTIAL_BYTES = 64 * 1024;
+// Por encima de este tamaño el fichero se resume por bloques para no cargarlo entero en memoria
+const FULL_HASH_LIMIT = 256 * 1024 * 1024;
+const CHUNK_BYTES = 16 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const sha256 = async (data: BufferSource) => toHex(await crypto.subtle.digest('SHA-256', data));
+
+/**
+ * Hash rápido con el tamaño y los primeros y últimos 64 KB: descarta casi todos los falsos duplicados.
+ */
+export const partialHash = async (file: Blob) => {
+  if (file.size <= PARTIAL_BYTES * 2) return sha256(await file.arrayBuffer());
+  const head = file.slice(0, PARTIAL_BYTES);
+  const tail = file.slice(file.size - PARTIAL_BYTES);
+  return sha256(await new Blob([String(file.size), head, tail]).arrayBuffer());
+};
+
+/**
+ * SHA-256 del contenido completo. Web Crypto no admite hashes incrementales, así que los ficheros
+ * muy grandes se resumen como SHA-256 de los SHA-256 de sus bloques (prefijo "tree:").
+ */
+export const fullHash = async (file: Blob) => {
+  if (file.size <= FULL_HASH_LIMIT) return sha256(await file.arrayBuffer());
+  const digests: string[] = [];
+  for (let offset = 0; offset < file.size; offset += CHUNK_BYTES) {
+    digests.push(await sha256(await file.slice(offset, offset + CHUNK_BYTES).arrayBuffer()));
+  }
+  return `tree:${await sha256(new TextEncoder().encode(digests.join('')))}`;
+};
+
+const groupBy = <T>(items: T[], key: (item: T) => string) => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  });
+  return [...groups.values()];
+};
+
+/**
+ * Calcula el hash de contenido de los ficheros que pueden estar repetidos: primero por tamaño,
+ * luego con el hash parcial y solo los que siguen coincidiendo con el SHA-256 completo.
+ * Los objetivos con `hash` ya calculado no se vuelven a leer salvo que aparezca uno nuevo con su
+ * mismo tamaño. Solo devuelve los hashes calculados en esta pasada.
+ */
+export const hashContents = async (targets: HashTarget[], onProgress?: (p: HashProgress) => void, signal?: AbortSignal) => {
+  const result = new Map<string, string>();
+  const groups = groupBy(targets, t => String(t.size)).filter(g => g.length > 1 && g.some(t => t.hash === undefined));
+  // Los que ya tienen hash completo se comparan con él; el resto necesita el parcial
+  const sameSize = groups.flat().filter(t => !t.hash);
+
+  const partial = new Map<string, string>();
+  for (let i = 0; i < sameSize.length; i++) {
+    signal?.throwIfAborted();
+    onProgress?.({ phase: 'partial', done: i, total: sameSize.length });
+    try {
+      partial.set(sameSize[i].key, `${sameSize[i].size}:${await partialHash(await sameSize[i].getFile())}`);
+    } catch (e) {}
+  }
+
+  // Un fichero nuevo junto a otro con hash completo solo puede compararse con el completo
+  const withKnown = new Set(groups.filter(g => g.some(t => t.hash)).flat().filter(t => t.hash === undefined));
+  const read = sameSize.filter(t => partial.has(t.key));
+  const candidates = [...new Set([
+    ...groupBy(read, t => partial.get(t.key)!).filter(g => g.length > 1).flat(),
+    ...read.filter(t => withKnown.has(t))
+  ])];
+  for (let i = 0; i < candidates.length; i++) {
+    signal?.throwIfAborted();
+    onProgress?.({ phase: 'full', done: i, total: candidates.length });
+    try {
+      result.set(candidates[i].key, await fullHash(await candidates[i].getFile()));
+    } catch (e) {}
+  }
+  return result;
+};
+
+/**
+ * Índice de contenido del destino a partir de sus objetivos ya calculados.
+ */
+export const indexDestination = (targets: HashTarget[]): ContentIndex => {
+  const index: ContentIndex = new Map();
+  for (const { key, hash } of targets) {
+    if (hash) index.set(hash, [...(index.get(hash) ?? []), key.slice(5)]);
+  }
+  return index;
+};
+
+/**
+ * Texto del hash para mostrar: los "tree:" no son el SHA-256 del fichero sino el de sus bloques.
+ */
+export const describeHash = (hash: string) => hash.startsWith('tree:')
+  ? `SHA-256 por bloques de ${CHUNK_BYTES / (1024 * 1024)} MB: ${hash.slice(5)}`
+  : `SHA-256: ${hash}`;
+
+/**
+ * Recorre toda la carpeta de destino y prepara sus ficheros para `hashContents`.
+ * Las claves son las rutas relativas precedidas de "dest:".
+ */
+export const collectDestinationTargets = async (root: FileSystemDirectoryHandle) => {
+  const targets: HashTarget[] = [];
+  for await (const entry of walkDirectory(root, Infinity)) {
+    const file = await entry.handle.getFile();
+    targets.push({ key: `dest:${joinPath(entry.relativePath, file.name)}`, size: file.size, getFile: () => entry.handle.getFile() });
+  }
+  return targets;
+};
@@ -0,0 +1,126 @@
+import { BatchJournal, JournalEntry } from '../types';
+import { STORE_JOURNAL, dbDelete, dbGetAll, dbPut } from './db';
+import { fileExists, joinPath, verifyPermission } from './directoryUtils';
+import { renameEntry, writeCopy } from './batchExecutor';
+import { toCsvCell } from './fileUtils';
+
+/**
+ * Guarda el diario de un lote.
+ */
+export const saveJournal = (journal: BatchJournal) => dbPut(STORE_JOURNAL, journal);
+
+/**
+ * Guarda el diario mientras el lote avanza, para poder deshacer lo hecho aunque la pestaña se
+ * cierre a medias. Las escrituras van en fila y las peticiones que llegan mientras se escribe se
+ * juntan en una sola.
+ */
+export const createJournalWriter = (journal: BatchJournal) => {
+  let queue: Promise<void> = Promise.resolve();
+  let pending = false;
+  const save = () => {
+    if (pending) return queue;
+    pending = true;
+    queue = queue.then(() => {
+      pending = false;
+      return saveJournal(journal);
+    }).then(() => {}, () => {});
+    return queue;
+  };
+  return { save };
+};
+
+/**
+ * Devuelve los lotes guardados, del más reciente al más antiguo.
+ */
+export const listJournals = async () => {
+  const all = await dbGetAll<BatchJournal>(STORE_JOURNAL);
+  return all.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteJournal = (id: string) => dbDelete(STORE_JOURNAL, id);
+
+/**
+ * Revierte una entrada: borra la copia, devuelve el fichero a su carpeta o recupera el nombre anterior.
+ */
+const undoEntry = async (entry: JournalEntry) => {
+  if (entry.mode === 'copy') {
+    if (entry.overwrote) throw new Error('La copia sustituyó un fichero existente; no se puede restaurar');
+    await entry.targetDir!.removeEntry(entry.targetName);
+    return;
+  }
+
+  const caseOnly = entry.sourceName.toLowerCase() === entry.targetName.toLowerCase();
+  if (!caseOnly && await fileExists(entry.sourceDir!, entry.sourceName)) {
+    throw new Error(`Ya existe "${entry.sourceName}" en la carpeta de origen`);
+  }
+
+  if (entry.mode === 'move') {
+    const moved = await entry.targetDir!.getFileHandle(entry.targetName);
+    await writeCopy(await moved.getFile(), entry.sourceDir!, entry.sourceName);
+    await entry.targetDir!.removeEntry(entry.targetName);
+    return;
+  }
+
+  const renamed = await entry.sourceDir!.getFileHandle(entry.targetName);
+  await renameEntry(entry.sourceDir!, renamed, entry.targetName, entry.sourceName, false);
+};
+
+/**
+ * Deshace un lote en orden inverso y guarda el resultado de cada entrada.
+ */
+export const undoJournal = async (journal: BatchJournal) => {
+  const entries = journal.entries.map(e => ({ ...e }));
+  const dirs = new Set<FileSystemDirectoryHandle>();
+  entries.forEach(e => {
+    if (e.sourceDir) dirs.add(e.sourceDir);
+    if (e.targetDir) dirs.add(e.targetDir);
+  });
+  for (const dir of dirs) {
+    if (!(await verifyPermission(dir))) throw new Error(`Sin permiso de escritura sobre "${dir.name}"`);
+  }
+
+  for (const entry of [...entries].reverse()) {
+    if (entry.outcome !== 'success' || entry.undone) continue;
+    try {
+      await undoEntry(entry);
+      entry.undone = true;
+      entry.undoError = undefined;
+    } catch (err: any) {
+      entry.undoError = err.message;
+    }
+  }
+
+  const updated: BatchJournal = { ...journal, entries, undoneAt: Date.now() };
+  await saveJournal(updated);
+  return updated;
+};
+
+const EXPORT_COLUMNS = ['batch', 'timestamp', 'mode', 'source', 'target', 'outcome', 'error', 'undone'];
+
+const exportRows = (journals: BatchJournal[]) => journals.flatMap(j => j.entries.map(e => ({
+  batch: j.id,
+  timestamp: new Date(e.timestamp).toISOString(),
+  mode: e.mode,
+  source: joinPath(j.sourceName, e.sourcePath, e.sourceName),
+  target: joinPath(e.mode === 'rename' ? j.sourceName : j.destName ?? '', e.targetPath, e.targetName),
+  outcome: e.outcome,
+  error: e.errorMessage ?? e.undoError ?? '',
+  undone: e.undone ? 'yes' : 'no'
+})));
+
+/**
+ * Exporta los diarios como CSV (una fila por fichero).
+ */
+export const journalsToCsv = (journals: BatchJournal[]) => {
+  const rows = exportRows(journals).map(r => EXPORT_COLUMNS.map(c => toCsvCell(r[c as keyof typeof r])).join(','));
+  return [EXPORT_COLUMNS.join(','), ...rows].join('\n');
+};
+
+/**
+ * Exporta los diarios como JSON, sin los handles de carpeta (no son serializables).
+ */
+export const journalsToJson = (journals: BatchJournal[]) => JSON.stringify(
+  journals.map(j => ({ ...j, entries: j.entries.map(({ sourceDir, targetDir, ...rest }) => rest) })),
+  null,
+  2
+);
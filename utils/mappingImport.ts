@@ -0,0 +1,152 @@
+import { FileItem } from '../types';
+import { getBaseName, getExtension } from './fileUtils';
+import { transliterate } from './renameRules';
+
+export type MatchMode = 'exact' | 'basename' | 'fuzzy';
+
+export type MatchStatus = 'matched' | 'unmatched' | 'ambiguous';
+
+export interface MappingRow {
+  line: number; // Línea del fichero original (1 = primera)
+  cells: string[];
+}
+
+export interface MappingColumns {
+  original: number;
+  path?: number; // Carpeta relativa, para distinguir ficheros con el mismo nombre
+  target: number;
+  prefix?: number;
+  suffix?: number;
+  extension?: number;
+}
+
+export interface MappingMatch {
+  row: MappingRow;
+  original: string;
+  target: string;
+  status: MatchStatus;
+  candidates: string[]; // Ids de los ficheros que encajan
+  reason?: string;
+}
+
+// Cabeceras reconocidas (en español e inglés) para proponer las columnas automáticamente
+const HEADER_ALIASES: Record<keyof MappingColumns, string[]> = {
+  original: ['original', 'origen', 'nombre original', 'source', 'old', 'from', 'actual'],
+  path: ['path', 'ruta', 'carpeta', 'folder'],
+  target: ['base', 'nuevo', 'nombre nuevo', 'new', 'target', 'to', 'destino'],
+  prefix: ['prefix', 'prefijo'],
+  suffix: ['suffix', 'sufijo'],
+  extension: ['ext', 'extension', 'extensión']
+};
+
+/**
+ * Propone qué columna corresponde a cada campo a partir de la cabecera.
+ * Sin cabecera reconocible se asume original en la primera y nuevo en la segunda.
+ */
+export const guessColumns = (header: string[]): { columns: MappingColumns; hasHeader: boolean } => {
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const find = (field: keyof MappingColumns) => {
+    const i = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    return i === -1 ? undefined : i;
+  };
+  const original = find('original');
+  const target = find('target');
+  if (original === undefined && target === undefined) return { columns: { original: 0, target: 1 }, hasHeader: false };
+  return {
+    columns: { original: original ?? 0, target: target ?? (original === 0 ? 1 : 0), path: find('path'), prefix: find('prefix'), suffix: find('suffix'), extension: find('extension') },
+    hasHeader: true
+  };
+};
+
+const normalizeFuzzy = (name: string) => transliterate(name).toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+/**
+ * Distancia de edición de Levenshtein entre dos textos.
+ */
+export const levenshtein = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = current;
+  }
+  return prev[b.length];
+};
+
+const FUZZY_THRESHOLD = 0.8;
+
+const findCandidates = (original: string, files: FileItem[], mode: MatchMode): string[] => {
+  const wanted = original.trim().toLowerCase();
+  // Si la celda trae ruta (2024/03/factura.pdf) se compara con la ruta completa
+  const fullName = (f: FileItem) => (wanted.includes('/') && f.relativePath ? `${f.relativePath}/${f.originalName}` : f.originalName).toLowerCase();
+
+  const exact = files.filter(f => fullName(f) === wanted);
+  if (exact.length || mode === 'exact') return exact.map(f => f.id);
+
+  const wantedBase = getBaseName(wanted);
+  const byBase = files.filter(f => getBaseName(fullName(f)) === wantedBase);
+  if (byBase.length || mode === 'basename') return byBase.map(f => f.id);
+
+  const key = normalizeFuzzy(wantedBase);
+  if (!key) return [];
+  let best = 0;
+  let ids: string[] = [];
+  for (const f of files) {
+    const candidate = normalizeFuzzy(getBaseName(f.originalName));
+    const score = candidate === key ? 1 : 1 - levenshtein(key, candidate) / Math.max(key.length, candidate.length);
+    if (score < FUZZY_THRESHOLD || score < best) continue;
+    if (score > best) {
+      best = score;
+      ids = [];
+    }
+    ids.push(f.id);
+  }
+  return ids;
+};
+
+/**
+ * Empareja cada fila del mapeo con los ficheros escaneados por su nombre original.
+ */
+export const matchMappingRows = (rows: MappingRow[], columns: MappingColumns, files: FileItem[], mode: MatchMode): MappingMatch[] => {
+  const matches: MappingMatch[] = rows.map(row => {
+    const name = (row.cells[columns.original] ?? '').trim();
+    const folder = columns.path === undefined ? '' : (row.cells[columns.path] ?? '').trim().replace(/^\/+|\/+$/g, '');
+    const original = folder && name ? `${folder}/${name}` : name;
+    const target = (row.cells[columns.target] ?? '').trim();
+    if (!original) return { row, original, target, status: 'unmatched', candidates: [], reason: 'Sin nombre original' };
+    const candidates = findCandidates(original, files, mode);
+    if (candidates.length === 0) return { row, original, target, status: 'unmatched', candidates, reason: 'No hay ningún fichero con ese nombre' };
+    if (candidates.length > 1) return { row, original, target, status: 'ambiguous', candidates, reason: `${candidates.length} ficheros coinciden` };
+    return { row, original, target, status: 'matched', candidates };
+  });
+
+  // Dos filas que apuntan al mismo fichero también son ambiguas
+  const owners = new Map<string, MappingMatch[]>();
+  matches.filter(m => m.status === 'matched').forEach(m => owners.set(m.candidates[0], [...(owners.get(m.candidates[0]) ?? []), m]));
+  owners.forEach(list => {
+    if (list.length < 2) return;
+    list.forEach(m => Object.assign(m, { status: 'ambiguous', reason: `Varias filas (${list.map(x => x.row.line).join(', ')}) para el mismo fichero` }));
+  });
+  return matches;
+};
+
+/**
+ * Campos que se asignan a un fichero a partir de una fila. Si el nombre nuevo termina con la
+ * extensión del fichero se quita, para no duplicarla. Las columnas que no se asignan a ningún
+ * campo se guardan por su cabecera para usarlas con {col:cabecera}.
+ */
+export const mappingToFields = (match: MappingMatch, columns: MappingColumns, header: string[], file: FileItem): Partial<FileItem> => {
+  const ext = getExtension(file.originalName).toLowerCase();
+  const target = ext && match.target.toLowerCase().endsWith(`.${ext}`) ? getBaseName(match.target) : match.target;
+  const fields: Partial<FileItem> = { customBaseName: target };
+  const cell = (i?: number) => i === undefined ? undefined : (match.row.cells[i] ?? '').trim();
+  if (columns.prefix !== undefined) fields.prefix = cell(columns.prefix);
+  if (columns.suffix !== undefined) fields.suffix = cell(columns.suffix);
+  if (columns.extension !== undefined) fields.extension = cell(columns.extension);
+  const used = new Set(Object.values(columns));
+  const extra = header.map((h, i) => [(h || `Columna ${i + 1}`).trim().toLowerCase(), i] as const).filter(([, i]) => !used.has(i));
+  if (extra.length) fields.mappingFields = Object.fromEntries(extra.map(([key, i]) => [key, cell(i)!]));
+  return fields;
+};
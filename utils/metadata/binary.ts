@@ -0,0 +1,38 @@
+
+/**
+ * Lee un tramo de un fichero como DataView sin cargar el resto en memoria.
+ */
+export const readRange = async (file: Blob, start: number, length: number) => {
+  const end = Math.min(file.size, start + length);
+  if (start >= end) return new DataView(new ArrayBuffer(0));
+  return new DataView(await file.slice(start, end).arrayBuffer());
+};
+
+/**
+ * Lee `length` bytes como texto ASCII (identificadores de cajas, marcas...).
+ */
+export const readAscii = (view: DataView, offset: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  return text;
+};
+
+/**
+ * Decodifica bytes con la codificación indicada y quita los nulos finales.
+ */
+export const decodeText = (view: DataView, offset: number, length: number, encoding = 'utf-8') => {
+  const end = Math.min(view.byteLength, offset + length);
+  if (offset >= end) return '';
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, end - offset);
+  return new TextDecoder(encoding).decode(bytes).replace(/\0+$/, '').trim();
+};
+
+/**
+ * Convierte "YYYY:MM:DD HH:MM:SS" (o con guiones) en marca de tiempo local.
+ */
+export const parseDateTime = (text: string | undefined) => {
+  const m = text?.match(/^(\d{4})[:\-](\d{2})[:\-](\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!m || m[1] === '0000') return undefined;
+  const date = new Date(+m[1], +m[2] - 1, +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0));
+  return isNaN(date.getTime()) ? undefined : date.getTime();
+};
@@ -0,0 +1,153 @@
+import { FileMetadata } from '../../types';
+import { decodeText, parseDateTime, readAscii, readRange } from './binary';
+import { findBox, readBoxes } from './isobmff';
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_DATETIME_DIGITIZED = 0x9004;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // Posición (en la vista) donde está el valor o el puntero al valor
+}
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+/**
+ * Lee las entradas de un IFD de una cabecera TIFF que empieza en `tiffStart`.
+ */
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean) => {
+  const entries = new Map<number, IfdEntry>();
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return entries;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const at = start + 2 + i * 12;
+    if (at + 12 > view.byteLength) break;
+    const type = view.getUint16(at + 2, little);
+    const n = view.getUint32(at + 4, little);
+    const size = (TYPE_SIZES[type] ?? 1) * n;
+    const valueOffset = size <= 4 ? at + 8 : tiffStart + view.getUint32(at + 8, little);
+    entries.set(view.getUint16(at, little), { type, count: n, valueOffset });
+  }
+  return entries;
+};
+
+const readString = (view: DataView, entry?: IfdEntry) => entry && entry.type === 2 ? decodeText(view, entry.valueOffset, entry.count, 'latin1') || undefined : undefined;
+
+const readLong = (view: DataView, entry: IfdEntry | undefined, little: boolean) => entry ? view.getUint32(entry.valueOffset, little) : undefined;
+
+/**
+ * Extrae fecha de captura, cámara y presencia de GPS de un bloque TIFF/EXIF.
+ */
+export const parseTiff = (view: DataView, tiffStart: number): FileMetadata => {
+  const order = readAscii(view, tiffStart, 2);
+  if (order !== 'II' && order !== 'MM') return {};
+  const little = order === 'II';
+  if (view.getUint16(tiffStart + 2, little) !== 42) return {};
+
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+  const exifOffset = readLong(view, ifd0.get(TAG_EXIF_IFD), little);
+  const exif = exifOffset ? readIfd(view, tiffStart, exifOffset, little) : new Map<number, IfdEntry>();
+  const gpsOffset = readLong(view, ifd0.get(TAG_GPS_IFD), little);
+  const gps = gpsOffset ? readIfd(view, tiffStart, gpsOffset, little) : new Map<number, IfdEntry>();
+
+  const captured = readString(view, exif.get(TAG_DATETIME_ORIGINAL)) ?? readString(view, exif.get(TAG_DATETIME_DIGITIZED)) ?? readString(view, ifd0.get(TAG_DATETIME));
+  return {
+    captureDate: parseDateTime(captured),
+    cameraMake: readString(view, ifd0.get(TAG_MAKE)),
+    cameraModel: readString(view, ifd0.get(TAG_MODEL)),
+    // Basta con que el IFD GPS tenga latitud (etiqueta 2)
+    hasGps: gps.has(2)
+  };
+};
+
+/**
+ * Busca el segmento APP1 "Exif" de un JPEG y lo interpreta.
+ */
+export const readJpegExif = async (file: Blob): Promise<FileMetadata> => {
+  const view = await readRange(file, 0, 256 * 1024);
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) break;
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xda) break; // Empiezan los datos de imagen
+    if (marker === 0xe1 && readAscii(view, offset + 4, 4) === 'Exif') return parseTiff(view, offset + 10);
+    offset += 2 + length;
+  }
+  return {};
+};
+
+/**
+ * Lee un TIFF (o RAW basado en TIFF) directamente desde su cabecera.
+ */
+export const readTiffExif = async (file: Blob): Promise<FileMetadata> => {
+  return parseTiff(await readRange(file, 0, 512 * 1024), 0);
+};
+
+/**
+ * Localiza el elemento "Exif" de un HEIC/HEIF (cajas meta → iinf + iloc) y lo interpreta.
+ */
+export const readHeifExif = async (file: Blob): Promise<FileMetadata> => {
+  const head = await readRange(file, 0, 1024 * 1024);
+  const meta = findBox(readBoxes(head, 0, head.byteLength), 'meta');
+  if (!meta) return {};
+  const children = readBoxes(head, meta.contentStart + 4, meta.end); // meta es "full box"
+  const iinf = findBox(children, 'iinf');
+  const iloc = findBox(children, 'iloc');
+  if (!iinf || !iloc) return {};
+
+  // iinf: lista de "infe" con el id y el tipo de cada elemento
+  const iinfVersion = head.getUint8(iinf.contentStart);
+  const infeStart = iinf.contentStart + 4 + (iinfVersion === 0 ? 2 : 4);
+  let exifId: number | undefined;
+  for (const infe of readBoxes(head, infeStart, iinf.end)) {
+    if (infe.type !== 'infe') continue;
+    const version = head.getUint8(infe.contentStart);
+    if (version < 2) continue;
+    const idSize = version === 2 ? 2 : 4;
+    const id = idSize === 2 ? head.getUint16(infe.contentStart + 4) : head.getUint32(infe.contentStart + 4);
+    if (readAscii(head, infe.contentStart + 4 + idSize + 2, 4) === 'Exif') exifId = id;
+  }
+  if (exifId === undefined) return {};
+
+  // iloc: posición del elemento dentro del fichero
+  let p = iloc.contentStart;
+  const version = head.getUint8(p);
+  const sizes = head.getUint16(p + 4);
+  const offsetSize = sizes >> 12, lengthSize = (sizes >> 8) & 0xf, baseSize = (sizes >> 4) & 0xf, indexSize = version > 0 ? sizes & 0xf : 0;
+  p += 6;
+  const readN = (n: number) => {
+    let value = 0;
+    for (let i = 0; i < n; i++) value = value * 256 + head.getUint8(p + i);
+    p += n;
+    return value;
+  };
+  const itemCount = readN(version < 2 ? 2 : 4);
+  for (let i = 0; i < itemCount; i++) {
+    const id = readN(version < 2 ? 2 : 4);
+    if (version > 0) readN(2); // construction_method
+    readN(2); // data_reference_index
+    const base = readN(baseSize);
+    const extents = readN(2);
+    let location: [number, number] | undefined;
+    for (let e = 0; e < extents; e++) {
+      readN(indexSize);
+      const extentOffset = readN(offsetSize);
+      const extentLength = readN(lengthSize);
+      if (e === 0) location = [base + extentOffset, extentLength];
+    }
+    if (id === exifId && location) {
+      const data = await readRange(file, location[0], location[1]);
+      // Los 4 primeros bytes indican dónde empieza la cabecera TIFF
+      return parseTiff(data, 4 + data.getUint32(0));
+    }
+  }
+  return {};
+};
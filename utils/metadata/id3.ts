@@ -0,0 +1,70 @@
+import { FileMetadata } from '../../types';
+import { decodeText, parseDateTime, readAscii, readRange } from './binary';
+
+const ENCODINGS = ['latin1', 'utf-16', 'utf-16be', 'utf-8'];
+
+const syncsafe = (view: DataView, offset: number) =>
+  (view.getUint8(offset) << 21) | (view.getUint8(offset + 1) << 14) | (view.getUint8(offset + 2) << 7) | view.getUint8(offset + 3);
+
+// Marcos de texto relevantes en ID3v2.3/2.4 y sus equivalentes de 3 letras en v2.2
+const FRAMES: Record<string, keyof FileMetadata | 'date'> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'author', TP1: 'author',
+  TALB: 'album', TAL: 'album',
+  TYER: 'year', TYE: 'year',
+  TDRC: 'date'
+};
+
+/**
+ * Lee la etiqueta ID3v2 del principio del fichero.
+ */
+const readId3v2 = async (file: Blob): Promise<FileMetadata | null> => {
+  const header = await readRange(file, 0, 10);
+  if (readAscii(header, 0, 3) !== 'ID3') return null;
+  const major = header.getUint8(3);
+  const flags = header.getUint8(5);
+  const view = await readRange(file, 10, syncsafe(header, 6));
+  const idSize = major === 2 ? 3 : 4;
+  const headerSize = major === 2 ? 6 : 10;
+  let offset = 0;
+  if (flags & 0x40 && major > 2) offset += major === 4 ? syncsafe(view, 0) : view.getUint32(0) + 4;
+
+  const result: FileMetadata = {};
+  while (offset + headerSize <= view.byteLength) {
+    const id = readAscii(view, offset, idSize);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Relleno
+    const size = major === 2
+      ? (view.getUint8(offset + 3) << 16) | view.getUint16(offset + 4)
+      : major === 4 ? syncsafe(view, offset + 4) : view.getUint32(offset + 4);
+    const field = FRAMES[id];
+    if (field && size > 1) {
+      const encoding = ENCODINGS[view.getUint8(offset + headerSize)] ?? 'latin1';
+      // Varios valores van separados por nulos; nos quedamos con el primero
+      const text = decodeText(view, offset + headerSize + 1, size - 1, encoding).split('\0')[0];
+      if (field === 'date') {
+        result.year = text.slice(0, 4);
+        if (text.length >= 10) result.captureDate = parseDateTime(text);
+      } else if (field === 'year') result.year = text.slice(0, 4);
+      else (result as Record<string, unknown>)[field] = text;
+    }
+    offset += headerSize + size;
+  }
+  return result;
+};
+
+/**
+ * Lee la etiqueta ID3v1 de los últimos 128 bytes.
+ */
+const readId3v1 = async (file: Blob): Promise<FileMetadata> => {
+  const view = await readRange(file, file.size - 128, 128);
+  if (readAscii(view, 0, 3) !== 'TAG') return {};
+  const text = (offset: number, length: number) => decodeText(view, offset, length, 'latin1') || undefined;
+  return { title: text(3, 30), author: text(33, 30), album: text(63, 30), year: text(93, 4) };
+};
+
+/**
+ * Etiquetas de audio ID3 (v2 con respaldo en v1).
+ */
+export const readId3 = async (file: Blob): Promise<FileMetadata> => {
+  return (await readId3v2(file)) ?? readId3v1(file);
+};
@@ -0,0 +1,72 @@
+import { FileMetadata, MetadataColumn } from '../../types';
+import { readAscii, readRange } from './binary';
+import { readHeifExif, readJpegExif, readTiffExif } from './exif';
+import { readId3 } from './id3';
+import { readMp4Metadata } from './isobmff';
+import { readPdfInfo } from './pdf';
+
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1', 'avif'];
+
+/**
+ * Elimina los campos vacíos para que `{}` signifique "leído, sin metadatos".
+ */
+const compact = (meta: FileMetadata): FileMetadata =>
+  Object.fromEntries(Object.entries(meta).filter(([, v]) => v !== undefined && v !== '' && v !== false)) as FileMetadata;
+
+/**
+ * Detecta el formato por sus bytes iniciales (no por la extensión) y extrae los metadatos.
+ * Nunca lanza: un fichero dañado devuelve `{}`.
+ */
+export const extractMetadata = async (file: File): Promise<FileMetadata> => {
+  try {
+    const head = await readRange(file, 0, 12);
+    if (head.byteLength < 4) return {};
+    if (head.getUint16(0) === 0xffd8) return compact(await readJpegExif(file));
+    const magic = readAscii(head, 0, 4);
+    if (magic === 'II*\0' || magic === 'MM\0*') return compact(await readTiffExif(file));
+    if (magic === '%PDF') return compact(await readPdfInfo(file));
+    if (magic.startsWith('ID3')) return compact(await readId3(file));
+    if (readAscii(head, 4, 4) === 'ftyp') {
+      return compact(HEIF_BRANDS.includes(readAscii(head, 8, 4)) ? await readHeifExif(file) : await readMp4Metadata(file));
+    }
+    // MP3 sin ID3v2: puede tener ID3v1 al final
+    if (/\.mp3$/i.test(file.name)) return compact(await readId3(file));
+    return {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Marca y modelo sin repetir la marca cuando el modelo ya la incluye ("Canon Canon EOS R6").
+ */
+export const cameraName = (meta?: FileMetadata) => {
+  if (!meta) return '';
+  const make = meta.cameraMake ?? '';
+  const model = meta.cameraModel ?? '';
+  return model.toLowerCase().startsWith(make.toLowerCase()) ? model : [make, model].filter(Boolean).join(' ');
+};
+
+export const METADATA_COLUMNS: Record<MetadataColumn, string> = {
+  captureDate: 'Fecha captura',
+  camera: 'Cámara',
+  hasGps: 'GPS',
+  title: 'Título',
+  author: 'Autor',
+  album: 'Álbum',
+  duration: 'Duración'
+};
+
+/**
+ * Texto de una columna de metadatos para la tabla.
+ */
+export const formatMetadata = (meta: FileMetadata | undefined, column: MetadataColumn) => {
+  if (!meta) return '';
+  switch (column) {
+    case 'captureDate': return meta.captureDate ? new Date(meta.captureDate).toLocaleString() : '';
+    case 'camera': return cameraName(meta);
+    case 'hasGps': return meta.hasGps ? 'Sí' : '';
+    case 'duration': return meta.duration ? `${Math.floor(meta.duration / 60)}:${String(meta.duration % 60).padStart(2, '0')}` : '';
+    default: return meta[column] ?? '';
+  }
+};
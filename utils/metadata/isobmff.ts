@@ -0,0 +1,99 @@
+import { FileMetadata } from '../../types';
+import { decodeText, readAscii, readRange } from './binary';
+
+export interface Box {
+  type: string;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+/**
+ * Enumera las cajas ISO-BMFF (MP4, MOV, HEIC) contenidas entre `start` y `end` de una vista.
+ */
+export const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= Math.min(end, view.byteLength)) {
+    let size = view.getUint32(offset);
+    const type = readAscii(view, offset + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) size = end - offset;
+    if (size < header) break;
+    boxes.push({ type, start: offset, contentStart: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+};
+
+export const findBox = (boxes: Box[], type: string) => boxes.find(b => b.type === type);
+
+/**
+ * Recorre las cajas de primer nivel leyendo solo sus cabeceras y devuelve la posición de una.
+ */
+const locateTopLevelBox = async (file: Blob, type: string) => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readRange(file, offset, 16);
+    let size = header.getUint32(0);
+    if (size === 1) size = Number(header.getBigUint64(8));
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) return null;
+    if (readAscii(header, 4, 4) === type) return { start: offset, size };
+    offset += size;
+  }
+  return null;
+};
+
+const MAX_MOOV_SIZE = 32 * 1024 * 1024;
+
+// Segundos entre 1904-01-01 (época de QuickTime) y 1970-01-01
+const MAC_EPOCH_OFFSET = 2082844800;
+
+/**
+ * Lee la fecha de creación (mvhd), la duración y las etiquetas iTunes (ilst) de un MP4/M4A/MOV.
+ */
+export const readMp4Metadata = async (file: Blob): Promise<FileMetadata> => {
+  const located = await locateTopLevelBox(file, 'moov');
+  if (!located || located.size > MAX_MOOV_SIZE) return {};
+  const view = await readRange(file, located.start, located.size);
+  const moov = readBoxes(view, 0, view.byteLength)[0];
+  const children = readBoxes(view, moov.contentStart, moov.end);
+  const result: FileMetadata = {};
+
+  const mvhd = findBox(children, 'mvhd');
+  if (mvhd) {
+    const version = view.getUint8(mvhd.contentStart);
+    const p = mvhd.contentStart + 4;
+    const created = version === 1 ? Number(view.getBigUint64(p)) : view.getUint32(p);
+    const timescale = view.getUint32(p + (version === 1 ? 16 : 8));
+    const duration = version === 1 ? Number(view.getBigUint64(p + 20)) : view.getUint32(p + 12);
+    if (created > MAC_EPOCH_OFFSET) result.captureDate = (created - MAC_EPOCH_OFFSET) * 1000;
+    if (timescale) result.duration = Math.round(duration / timescale);
+  }
+
+  const udta = findBox(children, 'udta');
+  if (!udta) return result;
+  const meta = findBox(readBoxes(view, udta.contentStart, udta.end), 'meta');
+  if (!meta) return result;
+  // En MP4 "meta" es full box (4 bytes de versión); en algunos MOV no
+  const metaStart = readAscii(view, meta.contentStart + 4, 4) === 'hdlr' ? meta.contentStart : meta.contentStart + 4;
+  const ilst = findBox(readBoxes(view, metaStart, meta.end), 'ilst');
+  if (!ilst) return result;
+
+  for (const item of readBoxes(view, ilst.contentStart, ilst.end)) {
+    const data = findBox(readBoxes(view, item.contentStart, item.end), 'data');
+    if (!data) continue;
+    const text = decodeText(view, data.contentStart + 8, data.end - data.contentStart - 8);
+    switch (item.type) {
+      case '©nam': result.title = text; break;
+      case '©ART': result.author = text; break;
+      case '©alb': result.album = text; break;
+      case '©day': result.year = text.slice(0, 4); break;
+    }
+  }
+  return result;
+};
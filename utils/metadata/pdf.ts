@@ -0,0 +1,102 @@
+import { FileMetadata } from '../../types';
+
+const CHUNK_SIZE = 64 * 1024;
+const MAX_FULL_READ = 32 * 1024 * 1024;
+
+const readLatin1 = async (file: Blob, start: number, end: number) =>
+  new TextDecoder('latin1').decode(await file.slice(start, end).arrayBuffer());
+
+/**
+ * Decodifica una cadena literal PDF "(...)" a partir de la posición del paréntesis inicial.
+ */
+const readLiteral = (text: string, start: number) => {
+  let depth = 0, out = '';
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (c === '\\') {
+      const next = text[++i];
+      const octal = text.slice(i).match(/^[0-7]{1,3}/);
+      if (octal) {
+        out += String.fromCharCode(parseInt(octal[0], 8));
+        i += octal[0].length - 1;
+      } else out += ({ n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' } as Record<string, string>)[next] ?? (next === '\n' || next === '\r' ? '' : next);
+      continue;
+    }
+    if (c === '(' && depth++ === 0) continue;
+    if (c === ')' && --depth === 0) break;
+    out += c;
+  }
+  return out;
+};
+
+/**
+ * Convierte los bytes de una cadena PDF en texto (UTF-16BE con BOM o PDFDocEncoding ≈ latin1).
+ */
+const decodePdfString = (raw: string) => {
+  if (raw.startsWith('\xfe\xff')) {
+    const bytes = Uint8Array.from(raw.slice(2), c => c.charCodeAt(0));
+    return new TextDecoder('utf-16be').decode(bytes);
+  }
+  return raw;
+};
+
+const readValue = (dict: string, key: string) => {
+  const m = dict.match(new RegExp(`/${key}\\s*([(<])`));
+  if (!m || m.index === undefined) return undefined;
+  const start = m.index + m[0].length - 1;
+  if (m[1] === '(') return decodePdfString(readLiteral(dict, start)).trim() || undefined;
+  const hex = dict.slice(start + 1, dict.indexOf('>', start)).replace(/\s/g, '');
+  const raw = (hex.match(/../g) ?? []).map(h => String.fromCharCode(parseInt(h, 16))).join('');
+  return decodePdfString(raw).trim() || undefined;
+};
+
+/**
+ * Convierte una fecha PDF "D:YYYYMMDDHHmmSS+HH'mm'" en marca de tiempo.
+ */
+const parsePdfDate = (text?: string) => {
+  const m = text?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([+\-Z])?(\d{2})?'?(\d{2})?/);
+  if (!m) return undefined;
+  const parts = [+m[1], +(m[2] ?? 1) - 1, +(m[3] ?? 1), +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0)] as const;
+  if (!m[7]) return new Date(...parts).getTime();
+  const offset = m[7] === 'Z' ? 0 : (m[7] === '-' ? -1 : 1) * ((+(m[8] ?? 0)) * 60 + +(m[9] ?? 0));
+  return Date.UTC(...parts) - offset * 60000;
+};
+
+/**
+ * Respaldo con los metadatos XMP, que suelen ir sin comprimir aunque Info esté en un flujo de objetos.
+ */
+const readXmp = (text: string): FileMetadata => {
+  const tag = (name: string) => text.match(new RegExp(`<${name}>\\s*(?:<rdf:(?:Alt|Seq|Bag)>\\s*<rdf:li[^>]*>)?([^<]+)`))?.[1].trim();
+  const created = tag('xmp:CreateDate');
+  return { title: tag('dc:title'), author: tag('dc:creator'), captureDate: created ? Date.parse(created) || undefined : undefined };
+};
+
+/**
+ * Lee título, autor y fecha de creación del diccionario Info del PDF.
+ */
+export const readPdfInfo = async (file: Blob): Promise<FileMetadata> => {
+  let text = file.size <= CHUNK_SIZE * 2
+    ? await readLatin1(file, 0, file.size)
+    : (await readLatin1(file, 0, CHUNK_SIZE)) + (await readLatin1(file, file.size - CHUNK_SIZE, file.size));
+
+  const findInfo = () => {
+    const ref = [...text.matchAll(/\/Info\s+(\d+)\s+(\d+)\s+R/g)].pop();
+    if (!ref) return null;
+    const start = text.search(new RegExp(`(^|\\s)${ref[1]}\\s+${ref[2]}\\s+obj`));
+    if (start < 0) return null;
+    return text.slice(start, text.indexOf('endobj', start));
+  };
+
+  let info = findInfo();
+  if (!info && file.size > CHUNK_SIZE * 2 && file.size <= MAX_FULL_READ) {
+    text = await readLatin1(file, 0, file.size);
+    info = findInfo();
+  }
+  const xmp = readXmp(text);
+  if (!info) return xmp;
+  return {
+    title: readValue(info, 'Title') ?? xmp.title,
+    author: readValue(info, 'Author') ?? xmp.author,
+    captureDate: parsePdfDate(readValue(info, 'CreationDate')) ?? xmp.captureDate
+  };
+};
@@ -0,0 +1,218 @@
+import { FileItem, GlobalConfig } from '../types';
+import { fileCategory, getBaseName, getExtension } from './fileUtils';
+import { sanitizeFileName } from './filenameValidation';
+import { cameraName } from './metadata';
+import { applyRules } from './renameRules';
+
+export interface NameContext {
+  index: number; // Posición del fichero en el orden actual (para el contador)
+  rootName: string; // Nombre de la carpeta de origen, usado por {folder} en la raíz
+}
+
+export interface TemplateToken {
+  token: string;
+  description: string;
+}
+
+export const TEMPLATE_TOKENS: TemplateToken[] = [
+  { token: '{base}', description: 'Nombre base editado' },
+  { token: '{name}', description: 'Nombre original sin extensión' },
+  { token: '{name:0:4}', description: 'Fragmento del original (inicio:longitud, inicio negativo cuenta desde el final)' },
+  { token: '{prefix}', description: 'Prefijo' },
+  { token: '{suffix}', description: 'Sufijo' },
+  { token: '{ext}', description: 'Extensión' },
+  { token: '{counter:000}', description: 'Contador con ceros a la izquierda' },
+  { token: '{yyyy}', description: 'Año de modificación' },
+  { token: '{yy}', description: 'Año (2 cifras)' },
+  { token: '{MM}', description: 'Mes' },
+  { token: '{dd}', description: 'Día' },
+  { token: '{HH}', description: 'Hora' },
+  { token: '{mm}', description: 'Minutos' },
+  { token: '{ss}', description: 'Segundos' },
+  { token: '{date}', description: 'Fecha yyyy-MM-dd' },
+  { token: '{size}', description: 'Tamaño en bytes ({size:kb}, {size:mb})' },
+  { token: '{type}', description: 'Tipo MIME ({type:main} = image, application...)' },
+  { token: '{folder}', description: 'Carpeta que contiene el fichero' },
+  { token: '{taken}', description: 'Fecha de captura (EXIF, PDF, MP4); admite formato: {taken:yyyyMMdd_HHmmss}' },
+  { token: '{camera}', description: 'Marca y modelo de la cámara' },
+  { token: '{title}', description: 'Título (PDF, audio, vídeo)' },
+  { token: '{author}', description: 'Autor del PDF o artista' },
+  { token: '{album}', description: 'Álbum' },
+  { token: '{category}', description: 'Categoría: Imágenes, Vídeos, Audio, Documentos...' },
+  { token: '{match:1}', description: 'Grupo capturado por la expresión regular de carpetas sobre el nombre original' },
+  { token: '{col:cliente}', description: 'Columna del mapeo importado (por su cabecera)' }
+];
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+
+const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+type TokenResolver = (args: string[], f: FileItem, config: GlobalConfig, ctx: NameContext) => string;
+
+const dateToken = (get: (d: Date) => string): TokenResolver => (_, f) => get(new Date(f.lastModified));
+
+const DATE_PARTS: Record<string, (d: Date) => string> = {
+  yyyy: d => String(d.getFullYear()),
+  yy: d => pad(d.getFullYear() % 100, 2),
+  MM: d => pad(d.getMonth() + 1, 2),
+  dd: d => pad(d.getDate(), 2),
+  HH: d => pad(d.getHours(), 2),
+  mm: d => pad(d.getMinutes(), 2),
+  ss: d => pad(d.getSeconds(), 2)
+};
+
+/**
+ * Formatea una fecha sustituyendo yyyy, yy, MM, dd, HH, mm y ss en el patrón.
+ */
+const formatDate = (d: Date, format: string) => format.replace(/yyyy|yy|MM|dd|HH|mm|ss/g, part => DATE_PARTS[part](d));
+
+// Las expresiones de {match} se compilan una vez por patrón; las no válidas quedan en null
+const patternCache = new Map<string, RegExp | null>();
+
+const compilePattern = (pattern: string) => {
+  if (!patternCache.has(pattern)) {
+    try {
+      patternCache.set(pattern, new RegExp(pattern, 'i'));
+    } catch (e) {
+      patternCache.set(pattern, null);
+    }
+  }
+  return patternCache.get(pattern)!;
+};
+
+const metaToken = (get: (f: FileItem) => string | undefined): TokenResolver => (_, f) => get(f) ?? '';
+
+const TOKEN_RESOLVERS: Record<string, TokenResolver> = {
+  base: (_, f) => f.customBaseName,
+  name: (args, f) => {
+    const name = getBaseName(f.originalName);
+    if (args.length === 0) return name;
+    const start = parseInt(args[0]) || 0;
+    const from = start < 0 ? Math.max(0, name.length + start) : start;
+    return args[1] !== undefined ? name.slice(from, from + (parseInt(args[1]) || 0)) : name.slice(from);
+  },
+  prefix: (_, f, config) => f.prefix || config.prefix,
+  suffix: (_, f, config) => f.suffix || config.suffix,
+  ext: (_, f, config) => (f.extension || config.extension || getExtension(f.originalName)).replace(/^\./, ''),
+  counter: (args, _, config, ctx) => {
+    const value = config.counterStart + ctx.index * config.counterStep;
+    const width = args[0] ? (/^0+$/.test(args[0]) ? args[0].length : parseInt(args[0]) || 0) : 0;
+    return pad(value, width);
+  },
+  yyyy: dateToken(DATE_PARTS.yyyy),
+  yy: dateToken(DATE_PARTS.yy),
+  MM: dateToken(DATE_PARTS.MM),
+  dd: dateToken(DATE_PARTS.dd),
+  HH: dateToken(DATE_PARTS.HH),
+  mm: dateToken(DATE_PARTS.mm),
+  ss: dateToken(DATE_PARTS.ss),
+  date: dateToken(d => formatDate(d, 'yyyy-MM-dd')),
+  size: (args, f) => {
+    if (args[0] === 'kb') return String(Math.round(f.size / 1024));
+    if (args[0] === 'mb') return (f.size / 1048576).toFixed(1);
+    return String(f.size);
+  },
+  type: (args, f) => {
+    const type = f.type || 'application/octet-stream';
+    return args[0] === 'main' ? type.split('/')[0] : type.replace('/', '-');
+  },
+  folder: (_, f, __, ctx) => f.relativePath ? f.relativePath.substring(f.relativePath.lastIndexOf('/') + 1) : f.sourceName || ctx.rootName,
+  // Sin fecha de captura se usa la de modificación para no dejar el nombre incompleto
+  taken: (args, f) => formatDate(new Date(f.metadata?.captureDate ?? f.lastModified), args.join(':') || 'yyyy-MM-dd'),
+  camera: metaToken(f => cameraName(f.metadata)),
+  title: metaToken(f => f.metadata?.title),
+  author: metaToken(f => f.metadata?.author),
+  album: metaToken(f => f.metadata?.album),
+  category: (_, f) => fileCategory(f.originalName, f.type),
+  match: (args, f, config) => {
+    const regex = config.folderPattern ? compilePattern(config.folderPattern) : null;
+    return regex?.exec(f.originalName)?.[parseInt(args[0]) || 0] ?? '';
+  },
+  col: (args, f) => f.mappingFields?.[args.join(':').trim().toLowerCase()] ?? ''
+};
+
+const METADATA_TOKENS = new Set(['taken', 'camera', 'title', 'author', 'album']);
+
+/**
+ * Indica si la plantilla usa tokens que necesitan leer los metadatos del fichero.
+ */
+export const usesMetadata = (template: string) =>
+  [...template.matchAll(TOKEN_PATTERN)].some(m => METADATA_TOKENS.has(m[1].split(':')[0]));
+
+/**
+ * Devuelve los errores de una plantilla (tokens desconocidos o llaves sin cerrar).
+ */
+export const validateTemplate = (template: string): string[] => {
+  const errors: string[] = [];
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    const [name] = match[1].split(':');
+    if (!TOKEN_RESOLVERS[name]) errors.push(`Token desconocido: {${match[1]}}`);
+  }
+  if (/[{}]/.test(template.replace(TOKEN_PATTERN, ''))) errors.push('Hay una llave { } sin cerrar');
+  return errors;
+};
+
+/**
+ * Sustituye los tokens de la plantilla. Los tokens desconocidos se dejan tal cual.
+ */
+export const renderTemplate = (template: string, f: FileItem, config: GlobalConfig, ctx: NameContext) => {
+  return template.replace(TOKEN_PATTERN, (whole, body: string) => {
+    const [name, ...args] = body.split(':');
+    const resolver = TOKEN_RESOLVERS[name];
+    return resolver ? resolver(args, f, config, ctx) : whole;
+  });
+};
+
+/**
+ * Plantilla efectiva de un fichero: la de la fila o, si no tiene, la global.
+ */
+export const getTemplate = (f: FileItem, config: GlobalConfig) => f.template || config.template;
+
+const composeName = (f: FileItem, config: GlobalConfig, ctx: NameContext) => {
+  const template = getTemplate(f, config);
+  if (template) {
+    const rendered = renderTemplate(template, f, config, ctx);
+    const ext = getExtension(rendered);
+    const stem = applyRules(ext ? getBaseName(rendered) : rendered, config.rules);
+    return ext ? `${stem}.${ext}` : stem;
+  }
+
+  const prefix = f.prefix || config.prefix;
+  const suffix = f.suffix || config.suffix;
+  const ext = f.extension || config.extension || getExtension(f.originalName);
+  const stem = applyRules(`${prefix}${f.customBaseName}${suffix}`, config.rules);
+  const dot = (ext && !ext.startsWith('.')) ? '.' : '';
+  return `${stem}${dot}${ext}`;
+};
+
+/**
+ * Calcula el nombre final de un fichero. Sin plantilla se usa prefijo + base + sufijo + extensión;
+ * en ambos casos las reglas se aplican sobre el nombre sin extensión. Con la corrección automática
+ * activada el resultado se adapta al sistema de destino.
+ */
+export const buildFinalName = (f: FileItem, config: GlobalConfig, ctx: NameContext) => {
+  const name = composeName(f, config, ctx);
+  return config.sanitizeMode === 'off' ? name : sanitizeFileName(name, config.targetProfile, config.sanitizeMode, config.sanitizeReplacement);
+};
+
+/**
+ * Versión memorizada de `buildFinalName`: los ficheros son inmutables, así que una fila que no ha
+ * cambiado (mismo objeto, misma posición) reutiliza su nombre. La caché se vacía al cambiar la configuración.
+ */
+export const createFinalNameCache = () => {
+  let cache = new WeakMap<FileItem, { index: number; name: string }>();
+  let lastConfig: GlobalConfig | null = null;
+  let lastRoot = '';
+  return (f: FileItem, config: GlobalConfig, ctx: NameContext) => {
+    if (config !== lastConfig || ctx.rootName !== lastRoot) {
+      cache = new WeakMap();
+      lastConfig = config;
+      lastRoot = ctx.rootName;
+    }
+    const hit = cache.get(f);
+    if (hit && hit.index === ctx.index) return hit.name;
+    const name = buildFinalName(f, config, ctx);
+    cache.set(f, { index: ctx.index, name });
+    return name;
+  };
+};
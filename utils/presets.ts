@@ -0,0 +1,236 @@
+import { Preset, PresetFile, RenameRule } from '../types';
+import { DEFAULT_GLOBAL_CONFIG, DEFAULT_SCAN_OPTIONS, createDefaultFilters } from '../constants';
+import { validateRule } from './renameRules';
+
+export const PRESET_SCHEMA_VERSION = 7;
+export const PRESET_FILE_FORMAT = 'ga-archivos-presets';
+
+const STORAGE_KEY = 'ga-archivos.presets';
+
+type RawPreset = Record<string, any>;
+
+// Completa los campos que faltan sin tocar los que ya trae el preset
+const fill = (preset: RawPreset, section: 'config' | 'filters', values: RawPreset): RawPreset =>
+  ({ ...preset, [section]: { ...values, ...preset[section] } });
+
+// Cada migración convierte un preset de la versión N (clave) a la N + 1.
+// Las versiones sin entrada solo amplían valores admitidos y no necesitan conversión.
+const MIGRATIONS: Record<number, (p: RawPreset) => RawPreset> = {
+  // v2: motor de filtros con modos de búsqueda y grupos de condiciones
+  1: p => fill(p, 'filters', {
+    searchMode: 'text', searchExclude: false, maxSize: '', extensions: [], types: [],
+    statuses: [], hideHidden: false, groups: [], groupJoin: 'and'
+  }),
+  // v3: condiciones sobre metadatos (taken, camera, title, author, gps)
+  // v4: contenido duplicado
+  3: p => fill(fill(p, 'config', { skipExistingContent: false }), 'filters', { duplicatesOnly: false }),
+  // v5: nombres válidos para el sistema de destino
+  4: p => fill(p, 'config', { targetProfile: 'windows', sanitizeMode: 'off', sanitizeReplacement: '_' }),
+  // v6: subcarpetas por plantilla
+  5: p => fill(p, 'config', { folderTemplate: '{yyyy}/{MM}', folderPattern: '' })
+  // v7: modo 'zip'
+};
+
+/**
+ * Lleva un preset antiguo hasta la versión actual del esquema y completa
+ * los campos que no existían cuando se guardó.
+ */
+export const migratePreset = (raw: RawPreset): RawPreset => {
+  let preset = { ...raw };
+  let version = typeof preset.version === 'number' ? preset.version : 1;
+  if (version > PRESET_SCHEMA_VERSION) throw new Error(`"${preset.name}" usa una versión más reciente (v${version}) que esta aplicación`);
+  while (version < PRESET_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) preset = migrate(preset);
+    version++;
+  }
+  return {
+    ...preset,
+    version,
+    config: { ...DEFAULT_GLOBAL_CONFIG, ...preset.config },
+    filters: { ...createDefaultFilters(), ...preset.filters },
+    scanOptions: { ...DEFAULT_SCAN_OPTIONS, ...preset.scanOptions }
+  };
+};
+
+const isString = (v: unknown) => typeof v === 'string';
+const isNumber = (v: unknown) => typeof v === 'number' && !isNaN(v);
+const isBoolean = (v: unknown) => typeof v === 'boolean';
+const isOneOf = (...values: unknown[]) => (v: unknown) => values.includes(v);
+const isArrayOf = (check: (v: unknown) => boolean) => (v: unknown) => Array.isArray(v) && v.every(check);
+
+type Schema = Record<string, (v: unknown) => boolean>;
+
+const CONFIG_SCHEMA: Schema = {
+  prefix: isString,
+  suffix: isString,
+  extension: isString,
+  conflictPolicy: isOneOf('skip', 'overwrite', 'number', 'newer', 'larger'),
+  mode: isOneOf('copy', 'move', 'rename', 'zip'),
+  rules: Array.isArray,
+  template: isString,
+  counterStart: isNumber,
+  counterStep: isNumber,
+  folderMode: isOneOf('mirror', 'flatten', 'template'),
+  folderTemplate: isString,
+  folderPattern: isString,
+  skipExistingContent: isBoolean,
+  targetProfile: isOneOf('windows', 'macos', 'linux', 'fat32', 'cloud'),
+  sanitizeMode: isOneOf('off', 'replace', 'strip'),
+  sanitizeReplacement: isString
+};
+
+const CONDITION_SCHEMA: Schema = {
+  id: isString,
+  field: isOneOf('name', 'path', 'ext', 'type', 'size', 'date', 'status', 'taken', 'camera', 'title', 'author', 'gps'),
+  operator: isOneOf('contains', 'not_contains', 'equals', 'not_equals', 'starts', 'ends', 'glob', 'regex', 'gt', 'lt'),
+  value: isString
+};
+
+const isFilterGroup = (v: any) => !!v && isString(v.id) && isOneOf('and', 'or')(v.join) && Array.isArray(v.conditions)
+  && v.conditions.every((c: any) => !!c && Object.entries(CONDITION_SCHEMA).every(([key, check]) => check(c[key])));
+
+const FILTER_SCHEMA: Schema = {
+  search: isString,
+  searchMode: isOneOf('text', 'glob', 'regex'),
+  searchExclude: isBoolean,
+  path: isString,
+  dateStart: isString,
+  dateEnd: isString,
+  minSize: isNumber,
+  maxSize: v => v === '' || isNumber(v),
+  extensions: isArrayOf(isString),
+  types: isArrayOf(isString),
+  statuses: isArrayOf(isOneOf('pending', 'processing', 'success', 'error', 'skipped')),
+  hideHidden: isBoolean,
+  duplicatesOnly: isBoolean,
+  groups: isArrayOf(isFilterGroup),
+  groupJoin: isOneOf('and', 'or'),
+  sort: isOneOf('name_asc', 'name_desc', 'date_asc', 'date_desc', 'size_asc', 'size_desc'),
+  limit: v => v === '' || isNumber(v)
+};
+
+const SCAN_SCHEMA: Schema = {
+  recursive: isBoolean,
+  maxDepth: v => v === '' || isNumber(v)
+};
+
+const RULE_FIELDS: Record<RenameRule['type'], Schema> = {
+  replace: { find: isString, replace: isString, regex: isBoolean, caseSensitive: isBoolean },
+  case: { mode: isOneOf('lower', 'upper', 'title', 'sentence', 'camel', 'snake', 'kebab') },
+  trim: { chars: isString, where: isOneOf('both', 'start', 'end', 'all') },
+  insert: { text: isString, position: isNumber, fromEnd: isBoolean },
+  remove: { start: isNumber, count: isNumber, fromEnd: isBoolean },
+  transliterate: {},
+  collapse: { separator: isString }
+};
+
+const checkSchema = (value: any, schema: Schema, path: string, errors: string[]) => {
+  if (!value || typeof value !== 'object') {
+    errors.push(`${path}: falta o no es un objeto`);
+    return;
+  }
+  for (const [key, check] of Object.entries(schema)) {
+    if (!check(value[key])) errors.push(`${path}.${key}: valor no válido (${JSON.stringify(value[key])})`);
+  }
+};
+
+/**
+ * Valida un preset ya migrado. Devuelve la lista de errores (vacía si es correcto).
+ */
+export const validatePreset = (preset: RawPreset): string[] => {
+  const errors: string[] = [];
+  const label = isString(preset.name) && preset.name ? `"${preset.name}"` : 'preset';
+  if (!isString(preset.name) || preset.name.trim() === '') errors.push(`${label}: falta el nombre`);
+  checkSchema(preset.config, CONFIG_SCHEMA, `${label}.config`, errors);
+  checkSchema(preset.filters, FILTER_SCHEMA, `${label}.filters`, errors);
+  checkSchema(preset.scanOptions, SCAN_SCHEMA, `${label}.scanOptions`, errors);
+  if (Array.isArray(preset.config?.rules)) {
+    preset.config.rules.forEach((rule: any, i: number) => {
+      const path = `${label}.config.rules[${i}]`;
+      const fields = RULE_FIELDS[rule?.type as RenameRule['type']];
+      if (!fields) return errors.push(`${path}: tipo de regla desconocido (${rule?.type})`);
+      checkSchema(rule, { id: isString, enabled: isBoolean, ...fields }, path, errors);
+      const ruleError = validateRule(rule);
+      if (ruleError) errors.push(`${path}: ${ruleError}`);
+    });
+  }
+  return errors;
+};
+
+/**
+ * Migra y valida un preset. Lanza con todos los errores si no es válido.
+ */
+export const parsePreset = (raw: RawPreset): Preset => {
+  const migrated = migratePreset(raw);
+  const errors = validatePreset(migrated);
+  if (errors.length) throw new Error(errors.join('\n'));
+  const now = Date.now();
+  return {
+    id: isString(migrated.id) ? migrated.id : crypto.randomUUID(),
+    name: migrated.name.trim(),
+    version: PRESET_SCHEMA_VERSION,
+    createdAt: isNumber(migrated.createdAt) ? migrated.createdAt : now,
+    updatedAt: isNumber(migrated.updatedAt) ? migrated.updatedAt : now,
+    config: migrated.config,
+    filters: migrated.filters,
+    scanOptions: migrated.scanOptions
+  };
+};
+
+/**
+ * Lee los presets guardados en el navegador, migrando los antiguos.
+ * Los que no superan la validación se descartan.
+ */
+export const loadPresets = (): Preset[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap(p => {
+      try {
+        return [parsePreset(p)];
+      } catch (e) {
+        return [];
+      }
+    });
+  } catch (e) {
+    return [];
+  }
+};
+
+export const storePresets = (presets: Preset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Genera el contenido del fichero de exportación.
+ */
+export const exportPresets = (presets: Preset[]) => {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    presets
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Lee un fichero de presets exportado (o un preset suelto). Lanza si el formato
+ * no se reconoce o algún preset no es válido.
+ */
+export const importPresets = (text: string): Preset[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('El fichero no es un JSON válido');
+  }
+  if (data?.format === PRESET_FILE_FORMAT) {
+    if (!Array.isArray(data.presets)) throw new Error('El fichero no contiene una lista de presets');
+    // Los presets sin versión propia heredan la del fichero
+    return data.presets.map((p: RawPreset) => parsePreset({ version: data.version, ...p }));
+  }
+  if (data && typeof data === 'object' && 'config' in data) return [parsePreset(data)];
+  throw new Error('Formato de fichero no reconocido');
+};
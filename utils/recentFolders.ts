@@ -0,0 +1,37 @@
+import { RecentFolder } from '../types';
+import { STORE_HANDLES, dbDelete, dbGetAll, dbPut } from './db';
+
+const MAX_RECENT = 8;
+
+/**
+ * Carpetas usadas recientemente para un rol, de la más reciente a la más antigua.
+ */
+export const listRecentFolders = async (role: RecentFolder['role']) => {
+  const all = await dbGetAll<RecentFolder>(STORE_HANDLES);
+  return all.filter(f => f.role === role).sort((a, b) => b.lastUsed - a.lastUsed);
+};
+
+/**
+ * Registra el uso de una carpeta. Si ya estaba en la lista solo se actualiza la fecha.
+ */
+export const addRecentFolder = async (role: RecentFolder['role'], handle: FileSystemDirectoryHandle) => {
+  const recent = await listRecentFolders(role);
+  let existing: RecentFolder | undefined;
+  for (const r of recent) {
+    if (await r.handle.isSameEntry(handle)) {
+      existing = r;
+      break;
+    }
+  }
+  await dbPut<RecentFolder>(STORE_HANDLES, {
+    id: existing?.id ?? crypto.randomUUID(),
+    role,
+    name: handle.name,
+    handle,
+    lastUsed: Date.now()
+  });
+  const stale = recent.filter(r => r !== existing).slice(MAX_RECENT - 1);
+  await Promise.all(stale.map(r => dbDelete(STORE_HANDLES, r.id)));
+};
+
+export const removeRecentFolder = (id: string) => dbDelete(STORE_HANDLES, id);
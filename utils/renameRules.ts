@@ -0,0 +1,135 @@
+import { CaseMode, RenameRule, RenameRuleType } from '../types';
+
+/**
+ * Escapa un texto para usarlo literalmente dentro de una expresión regular.
+ */
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const splitWords = (text: string) => text.split(/[\s_\-.]+/).filter(Boolean);
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+/**
+ * Cambia mayúsculas/minúsculas o el estilo de separación de palabras.
+ */
+export const transformCase = (text: string, mode: CaseMode) => {
+  switch (mode) {
+    case 'lower': return text.toLowerCase();
+    case 'upper': return text.toUpperCase();
+    case 'title': return text.toLowerCase().replace(/(^|[\s_\-.(\[])(\p{L})/gu, (_, sep, ch) => sep + ch.toUpperCase());
+    case 'sentence': return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+    case 'camel': return splitWords(text).map((w, i) => i === 0 ? w.toLowerCase() : capitalize(w)).join('');
+    case 'snake': return splitWords(text).map(w => w.toLowerCase()).join('_');
+    case 'kebab': return splitWords(text).map(w => w.toLowerCase()).join('-');
+  }
+};
+
+/**
+ * Quita tildes y diacríticos (á → a, ñ → n, ç → c) y sustituye ligaduras comunes.
+ */
+export const transliterate = (text: string) => text
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/ß/g, 'ss').replace(/æ/g, 'ae').replace(/Æ/g, 'AE')
+  .replace(/ø/g, 'o').replace(/Ø/g, 'O').replace(/œ/g, 'oe').replace(/Œ/g, 'OE')
+  .replace(/ł/g, 'l').replace(/Ł/g, 'L').replace(/đ/g, 'd').replace(/Đ/g, 'D')
+  .normalize('NFC');
+
+const clampIndex = (text: string, position: number, fromEnd: boolean) => {
+  const pos = Math.max(0, Math.min(text.length, position));
+  return fromEnd ? text.length - pos : pos;
+};
+
+/**
+ * Construye la expresión de una regla de sustitución. Lanza si la regex no es válida.
+ */
+const buildReplacePattern = (find: string, regex: boolean, caseSensitive: boolean) => {
+  return new RegExp(regex ? find : escapeRegExp(find), caseSensitive ? 'g' : 'gi');
+};
+
+/**
+ * Devuelve el mensaje de error de una regla o null si es válida.
+ */
+export const validateRule = (rule: RenameRule): string | null => {
+  if (rule.type === 'replace' && rule.regex && rule.find !== '') {
+    try {
+      buildReplacePattern(rule.find, true, rule.caseSensitive);
+    } catch (e: any) {
+      return `Expresión regular no válida: ${e.message}`;
+    }
+  }
+  if ((rule.type === 'insert' && rule.position < 0) || (rule.type === 'remove' && (rule.start < 0 || rule.count < 0))) {
+    return 'Las posiciones no pueden ser negativas';
+  }
+  return null;
+};
+
+/**
+ * Aplica una regla a un nombre. Las reglas no válidas devuelven el nombre sin cambios.
+ */
+export const applyRule = (name: string, rule: RenameRule): string => {
+  if (!rule.enabled || validateRule(rule)) return name;
+  switch (rule.type) {
+    case 'replace':
+      if (rule.find === '') return name;
+      // Con regex = false el reemplazo es literal: se escapan los $ para que no se interpreten
+      return name.replace(buildReplacePattern(rule.find, rule.regex, rule.caseSensitive), rule.regex ? rule.replace : rule.replace.replace(/\$/g, '$$$$'));
+    case 'case':
+      return transformCase(name, rule.mode);
+    case 'trim': {
+      const set = rule.chars === '' ? '\\s' : escapeRegExp(rule.chars).replace(/-/g, '\\-');
+      if (rule.where === 'all') return name.replace(new RegExp(`[${set}]+`, 'g'), '');
+      let result = name;
+      if (rule.where !== 'end') result = result.replace(new RegExp(`^[${set}]+`), '');
+      if (rule.where !== 'start') result = result.replace(new RegExp(`[${set}]+$`), '');
+      return result;
+    }
+    case 'insert': {
+      const at = clampIndex(name, rule.position, rule.fromEnd);
+      return name.slice(0, at) + rule.text + name.slice(at);
+    }
+    case 'remove': {
+      if (rule.fromEnd) {
+        const end = clampIndex(name, rule.start, true);
+        return name.slice(0, Math.max(0, end - rule.count)) + name.slice(end);
+      }
+      const start = clampIndex(name, rule.start, false);
+      return name.slice(0, start) + name.slice(start + rule.count);
+    }
+    case 'transliterate':
+      return transliterate(name);
+    case 'collapse':
+      return name.trim().replace(/\s+/g, rule.separator);
+  }
+};
+
+/**
+ * Aplica la lista de reglas en orden.
+ */
+export const applyRules = (name: string, rules: RenameRule[]) => rules.reduce(applyRule, name);
+
+/**
+ * Crea una regla nueva con valores por defecto.
+ */
+export const createRule = (type: RenameRuleType): RenameRule => {
+  const base = { id: crypto.randomUUID(), enabled: true };
+  switch (type) {
+    case 'replace': return { ...base, type, find: '', replace: '', regex: false, caseSensitive: true };
+    case 'case': return { ...base, type, mode: 'lower' };
+    case 'trim': return { ...base, type, chars: '', where: 'both' };
+    case 'insert': return { ...base, type, text: '', position: 0, fromEnd: false };
+    case 'remove': return { ...base, type, start: 0, count: 1, fromEnd: false };
+    case 'transliterate': return { ...base, type };
+    case 'collapse': return { ...base, type, separator: ' ' };
+  }
+};
+
+export const RULE_LABELS: Record<RenameRuleType, string> = {
+  replace: 'Buscar y reemplazar',
+  case: 'Mayúsculas / minúsculas',
+  trim: 'Recortar caracteres',
+  insert: 'Insertar texto',
+  remove: 'Eliminar caracteres',
+  transliterate: 'Quitar tildes',
+  collapse: 'Unificar espacios'
+};
@@ -0,0 +1,25 @@
+import { SuggestionSettings } from '../types';
+
+const STORAGE_KEY = 'ga-archivos.suggestions';
+
+export const DEFAULT_SUGGESTION_SETTINGS: SuggestionSettings = {
+  provider: 'rules',
+  endpoint: 'http://localhost:8080/suggest',
+  convention: 'Fecha yyyymmdd, guion bajo y una descripción breve en minúsculas sin tildes',
+  includeSnippet: false,
+  includeThumbnail: false
+};
+
+export const loadSuggestionSettings = (): SuggestionSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    const merged = { ...DEFAULT_SUGGESTION_SETTINGS, ...raw };
+    return ['gemini', 'local', 'rules'].includes(merged.provider) ? merged : DEFAULT_SUGGESTION_SETTINGS;
+  } catch (e) {
+    return DEFAULT_SUGGESTION_SETTINGS;
+  }
+};
+
+export const storeSuggestionSettings = (settings: SuggestionSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
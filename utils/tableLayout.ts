@@ -0,0 +1,19 @@
+import { TableLayout } from '../types';
+
+const STORAGE_KEY = 'ga-archivos.table-layout';
+
+export const loadTableLayout = (): TableLayout => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      widths: raw && typeof raw.widths === 'object' ? raw.widths : {},
+      hidden: Array.isArray(raw?.hidden) ? raw.hidden.filter((c: unknown) => typeof c === 'string') : []
+    };
+  } catch (e) {
+    return { widths: {}, hidden: [] };
+  }
+};
+
+export const storeTableLayout = (layout: TableLayout) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
+};
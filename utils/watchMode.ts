@@ -0,0 +1,94 @@
+import { FileItem, WatchRun, WatchSettings } from '../types';
+import { joinPath } from './directoryUtils';
+
+const SETTINGS_KEY = 'ga-archivos.watch';
+const LOG_KEY = 'ga-archivos.watch-log';
+const MAX_LOG = 50;
+
+export const MIN_WATCH_INTERVAL = 10;
+
+// Un fichero modificado hace menos de esto puede estar escribiéndose todavía (p. ej. el escáner)
+export const SETTLE_MS = 5000;
+
+export const DEFAULT_WATCH_SETTINGS: WatchSettings = { presetId: '', intervalSec: 60, useObserver: true };
+
+export const HAS_FS_OBSERVER = typeof window !== 'undefined' && 'FileSystemObserver' in window;
+
+export const loadWatchSettings = (): WatchSettings => {
+  try {
+    const merged = { ...DEFAULT_WATCH_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+    return typeof merged.intervalSec === 'number' && merged.intervalSec >= MIN_WATCH_INTERVAL ? merged : DEFAULT_WATCH_SETTINGS;
+  } catch (e) {
+    return DEFAULT_WATCH_SETTINGS;
+  }
+};
+
+export const storeWatchSettings = (settings: WatchSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadWatchLog = (): WatchRun[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LOG_KEY) || '[]');
+    return Array.isArray(raw) ? raw : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * Añade una ejecución al principio del registro, que guarda solo las más recientes.
+ */
+export const appendWatchLog = (log: WatchRun[], run: WatchRun) => {
+  const next = [run, ...log].slice(0, MAX_LOG);
+  localStorage.setItem(LOG_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const clearWatchLog = () => localStorage.removeItem(LOG_KEY);
+
+// Ruta -> tamaño y fecha vistos. null = cualquier valor (el resultado de un renombrado automático)
+export type WatchSnapshot = Map<string, { size: number; lastModified: number } | null>;
+
+export const watchKey = (f: Pick<FileItem, 'relativePath' | 'originalName'>) => joinPath(f.relativePath, f.originalName);
+
+export const createWatchSnapshot = (files: FileItem[]): WatchSnapshot =>
+  new Map(files.map(f => [watchKey(f), { size: f.size, lastModified: f.lastModified }]));
+
+/**
+ * Compara un escaneo con lo visto antes. Los ficheros nuevos o modificados quedan listos para
+ * procesarse salvo que se hayan tocado hace muy poco: esos esperan al siguiente escaneo sin
+ * pasar al nuevo estado, para no tratar un fichero a medio escribir.
+ */
+export const detectChanges = (snapshot: WatchSnapshot, files: FileItem[], now: number) => {
+  const next: WatchSnapshot = new Map();
+  const ready: FileItem[] = [];
+  let waiting = 0;
+  for (const f of files) {
+    const key = watchKey(f);
+    const seen = snapshot.get(key);
+    const signature = { size: f.size, lastModified: f.lastModified };
+    if (snapshot.has(key) && (seen === null || (seen!.size === f.size && seen!.lastModified === f.lastModified))) {
+      next.set(key, signature);
+    } else if (now - f.lastModified < SETTLE_MS) {
+      waiting++;
+      if (snapshot.has(key)) next.set(key, seen!);
+    } else {
+      next.set(key, signature);
+      ready.push(f);
+    }
+  }
+  return { snapshot: next, ready, waiting };
+};
+
+/**
+ * Avisa de los cambios bajo la carpeta con FileSystemObserver. Devuelve la función para dejar
+ * de observar, o null si el navegador no lo implementa.
+ */
+export const observeDirectory = (handle: FileSystemDirectoryHandle, onChange: () => void) => {
+  if (!HAS_FS_OBSERVER) return null;
+  const observer = new (window as any).FileSystemObserver(() => onChange());
+  // Si no se puede observar, el sondeo periódico sigue funcionando
+  observer.observe(handle, { recursive: true }).catch(() => {});
+  return () => observer.disconnect();
+};
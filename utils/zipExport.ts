@@ -0,0 +1,94 @@
+import { TransferProgress } from '../workers/protocol';
+import { BatchJob, TaskResult } from './fileWorkerClient';
+import { createPauseGate, runPool } from './concurrency';
+import { ZipEntry, buildZip, crc32Blob } from './zipWriter';
+
+export interface ZipTask {
+  id: string;
+  path: string; // Carpeta de destino + nombre final
+  size: number;
+  lastModified: number;
+  getFile: () => Promise<File>;
+}
+
+const PROGRESS_INTERVAL = 200;
+
+/**
+ * Empaqueta el lote en un ZIP con la misma interfaz que el lote del worker (pausa, cancelación,
+ * progreso y resultados por fichero). Al terminar, o al cancelar, entrega el ZIP con los ficheros
+ * que se llegaron a leer.
+ */
+export const runZipJob = (
+  tasks: ZipTask[],
+  handlers: {
+    onStarted: (ids: string[]) => void;
+    onResults: (results: TaskResult[]) => void;
+    onProgress: (progress: TransferProgress) => void;
+  },
+  onArchive: (zip: Blob) => void
+): BatchJob => {
+  const gate = createPauseGate();
+  const controller = new AbortController();
+  const progress: TransferProgress = {
+    doneFiles: 0, totalFiles: tasks.length, doneBytes: 0,
+    totalBytes: tasks.reduce((sum, t) => sum + t.size, 0), elapsedMs: 0, paused: false
+  };
+  let activeSince = Date.now();
+  const snapshot = (): TransferProgress => ({ ...progress, elapsedMs: progress.elapsedMs + (gate.isPaused() ? 0 : Date.now() - activeSince) });
+
+  const run = async () => {
+    const entries: ZipEntry[] = [];
+    const finished = new Set<string>();
+    const timer = setInterval(() => handlers.onProgress(snapshot()), PROGRESS_INTERVAL);
+    await runPool(tasks, 1, async task => {
+      handlers.onStarted([task.id]);
+      let read = 0;
+      try {
+        const file = await task.getFile();
+        const crc = await crc32Blob(file, controller.signal, bytes => {
+          read += bytes;
+          progress.doneBytes += bytes;
+        });
+        entries.push({ path: task.path, data: file, lastModified: task.lastModified, crc });
+        handlers.onResults([{ id: task.id, outcome: 'success' }]);
+        progress.doneFiles++;
+      } catch (err: any) {
+        progress.doneBytes -= read;
+        if (controller.signal.aborted) handlers.onResults([{ id: task.id, outcome: 'cancelled' }]);
+        else {
+          handlers.onResults([{ id: task.id, outcome: 'error', error: err?.message ?? String(err), errorName: err?.name }]);
+          progress.doneFiles++;
+        }
+      } finally {
+        finished.add(task.id);
+      }
+    }, gate, controller.signal);
+    clearInterval(timer);
+    const cancelled = tasks.filter(t => !finished.has(t.id)).map(t => ({ id: t.id, outcome: 'cancelled' as const }));
+    if (cancelled.length) handlers.onResults(cancelled);
+    if (entries.length) onArchive(buildZip(entries));
+    return snapshot();
+  };
+
+  const resume = () => {
+    if (!gate.isPaused()) return;
+    activeSince = Date.now();
+    progress.paused = false;
+    gate.resume();
+  };
+
+  return {
+    pause: () => {
+      if (gate.isPaused()) return;
+      progress.elapsedMs += Date.now() - activeSince;
+      progress.paused = true;
+      gate.pause();
+    },
+    resume,
+    cancel: () => {
+      controller.abort();
+      resume();
+    },
+    done: run()
+  };
+};
@@ -0,0 +1,162 @@
+// ZIP sin compresión (método "store"). Solo se lee cada fichero una vez para su CRC-32; el archivo
+// final es un Blob que enlaza las cabeceras con los propios File, así que no se copia en memoria.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 incremental: se pasa el valor anterior para continuar con el siguiente trozo.
+ */
+export const crc32 = (data: Uint8Array, previous = 0) => {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * CRC-32 de un Blob leído por stream, sin cargarlo entero.
+ */
+export const crc32Blob = async (blob: Blob, signal?: AbortSignal, onBytes?: (bytes: number) => void) => {
+  const reader = blob.stream().getReader();
+  let crc = 0;
+  try {
+    for (;;) {
+      if (signal?.aborted) throw new DOMException('Cancelado', 'AbortError');
+      const { done, value } = await reader.read();
+      if (done) return crc;
+      crc = crc32(value, crc);
+      onBytes?.(value.length);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+export interface ZipEntry {
+  path: string; // Ruta dentro del ZIP con '/' como separador
+  data: Blob;
+  lastModified: number;
+  crc: number;
+}
+
+const MAX32 = 0xffffffff;
+const utf8 = new TextEncoder();
+
+const dosDateTime = (ms: number) => {
+  const d = new Date(ms);
+  const year = Math.min(Math.max(d.getFullYear(), 1980), 2107);
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+};
+
+/**
+ * Monta el ZIP. Los tamaños o desplazamientos de 4 GB o más usan las extensiones ZIP64.
+ */
+export const buildZip = (entries: ZipEntry[]): Blob => {
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = utf8.encode(entry.path);
+    const size = entry.data.size;
+    const { time, date } = dosDateTime(entry.lastModified);
+    const big = size >= MAX32;
+    const bigOffset = offset >= MAX32;
+    const version = big || bigOffset ? 45 : 20;
+
+    const local = new DataView(new ArrayBuffer(30 + name.length + (big ? 20 : 0)));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, version, true);
+    local.setUint16(6, 0x0800, true); // Nombres en UTF-8
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, entry.crc, true);
+    local.setUint32(18, big ? MAX32 : size, true);
+    local.setUint32(22, big ? MAX32 : size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, big ? 20 : 0, true);
+    new Uint8Array(local.buffer).set(name, 30);
+    if (big) {
+      const extra = 30 + name.length;
+      local.setUint16(extra, 0x0001, true);
+      local.setUint16(extra + 2, 16, true);
+      local.setBigUint64(extra + 4, BigInt(size), true);
+      local.setBigUint64(extra + 12, BigInt(size), true);
+    }
+
+    const extraLength = (big ? 16 : 0) + (bigOffset ? 8 : 0);
+    const header = new DataView(new ArrayBuffer(46 + name.length + (extraLength ? 4 + extraLength : 0)));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, version, true);
+    header.setUint16(6, version, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, entry.crc, true);
+    header.setUint32(20, big ? MAX32 : size, true);
+    header.setUint32(24, big ? MAX32 : size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint16(30, extraLength ? 4 + extraLength : 0, true);
+    header.setUint32(42, bigOffset ? MAX32 : offset, true);
+    new Uint8Array(header.buffer).set(name, 46);
+    if (extraLength) {
+      let at = 46 + name.length;
+      header.setUint16(at, 0x0001, true);
+      header.setUint16(at + 2, extraLength, true);
+      at += 4;
+      if (big) {
+        header.setBigUint64(at, BigInt(size), true);
+        header.setBigUint64(at + 8, BigInt(size), true);
+        at += 16;
+      }
+      if (bigOffset) header.setBigUint64(at, BigInt(offset), true);
+    }
+
+    parts.push(local.buffer, entry.data);
+    central.push(new Uint8Array(header.buffer));
+    offset += local.byteLength + size;
+  }
+
+  const centralSize = central.reduce((sum, h) => sum + h.length, 0);
+  parts.push(...central.map(h => h.buffer as ArrayBuffer));
+
+  const needs64 = entries.length >= 0xffff || offset >= MAX32 || centralSize >= MAX32;
+  if (needs64) {
+    const record = new DataView(new ArrayBuffer(56 + 20));
+    record.setUint32(0, 0x06064b50, true);
+    record.setBigUint64(4, 44n, true);
+    record.setUint16(12, 45, true);
+    record.setUint16(14, 45, true);
+    record.setBigUint64(24, BigInt(entries.length), true);
+    record.setBigUint64(32, BigInt(entries.length), true);
+    record.setBigUint64(40, BigInt(centralSize), true);
+    record.setBigUint64(48, BigInt(offset), true);
+    // Localizador del registro ZIP64
+    record.setUint32(56, 0x07064b50, true);
+    record.setBigUint64(64, BigInt(offset + centralSize), true);
+    record.setUint32(72, 1, true);
+    parts.push(record.buffer);
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, needs64 ? 0xffff : entries.length, true);
+  end.setUint16(10, needs64 ? 0xffff : entries.length, true);
+  end.setUint32(12, needs64 ? MAX32 : centralSize, true);
+  end.setUint32(16, needs64 ? MAX32 : offset, true);
+  parts.push(end.buffer);
+
+  return new Blob(parts, { type: 'application/zip' });
+};
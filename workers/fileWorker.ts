@@ -0,0 +1,166 @@
+import { createDirectoryResolver, fileExists, walkDirectory, WalkedFile } from '../utils/directoryUtils';
+import { executeOperation, renameEntry } from '../utils/batchExecutor';
+import { createPauseGate, runPool } from '../utils/concurrency';
+import { BatchTask, ScannedEntry, TransferProgress, WorkerEvent, WorkerRequest } from './protocol';
+import { BatchMode } from '../types';
+
+// Cada trabajo usa su propio worker: estos valores solo viven lo que dura uno
+const gate = createPauseGate();
+const controller = new AbortController();
+
+let controlHandler: ((request: WorkerRequest) => void) | null = null;
+
+const post = (event: WorkerEvent) => self.postMessage(event);
+
+const SCAN_BATCH_SIZE = 500;
+const FLUSH_INTERVAL = 200;
+
+const scan = async (root: FileSystemDirectoryHandle, maxDepth: number, concurrency: number) => {
+  const walked: WalkedFile[] = [];
+  for await (const entry of walkDirectory(root, maxDepth)) walked.push(entry);
+
+  const entries: ScannedEntry[] = new Array(walked.length);
+  let pending: ScannedEntry[] = [];
+  await runPool(walked, concurrency, async (entry, i) => {
+    const file = await entry.handle.getFile();
+    entries[i] = {
+      handle: entry.handle, parent: entry.parent, relativePath: entry.relativePath,
+      name: file.name, size: file.size, lastModified: file.lastModified, type: file.type
+    };
+    pending.push(entries[i]);
+    if (pending.length >= SCAN_BATCH_SIZE) {
+      post({ type: 'scan-batch', entries: pending });
+      pending = [];
+    }
+  }, undefined, controller.signal);
+  if (pending.length) post({ type: 'scan-batch', entries: pending });
+  post({ type: 'scan-done' });
+};
+
+const runBatch = async (tasks: BatchTask[], mode: BatchMode, destRoot: FileSystemDirectoryHandle | null, concurrency: number) => {
+  const resolveTargetDir = destRoot ? createDirectoryResolver(destRoot) : async () => { throw new Error('Sin carpeta de destino'); };
+  const progress: TransferProgress = {
+    doneFiles: 0, totalFiles: tasks.length, doneBytes: 0,
+    totalBytes: tasks.reduce((sum, t) => sum + t.size, 0), elapsedMs: 0, paused: false
+  };
+  let activeSince = Date.now();
+  const snapshot = (): TransferProgress => ({
+    ...progress,
+    elapsedMs: progress.elapsedMs + (gate.isPaused() ? 0 : Date.now() - activeSince),
+    paused: gate.isPaused()
+  });
+
+  // Los eventos se agrupan para no saturar el hilo principal con miles de mensajes
+  let started: string[] = [];
+  let results: Extract<WorkerEvent, { type: 'results' }>['results'] = [];
+  const flush = () => {
+    if (started.length) post({ type: 'started', ids: started });
+    if (results.length) post({ type: 'results', results });
+    post({ type: 'progress', progress: snapshot() });
+    started = [];
+    results = [];
+  };
+  const timer = setInterval(flush, FLUSH_INTERVAL);
+
+  const handleControl = (request: WorkerRequest) => {
+    if (request.type === 'pause' && !gate.isPaused()) {
+      progress.elapsedMs += Date.now() - activeSince;
+      gate.pause();
+    } else if (request.type === 'resume' && gate.isPaused()) {
+      activeSince = Date.now();
+      gate.resume();
+    }
+  };
+  controlHandler = handleControl;
+
+  // Renombrados cuyo nombre ocupa aún otro fichero del lote (cadenas e intercambios): primero pasan
+  // a un nombre temporal y, cuando todos han dejado libre el suyo, toman el definitivo
+  const staged: { task: BatchTask; handle: FileSystemFileHandle; tempName: string }[] = [];
+  // Nombres que algún renombrado del lote ha dejado libres de verdad, por carpeta
+  const vacated = new Map<FileSystemDirectoryHandle, Set<string>>();
+  const markVacated = (task: BatchTask) => {
+    const names = vacated.get(task.parentHandle!) ?? new Set<string>();
+    names.add(task.originalName.toLowerCase());
+    vacated.set(task.parentHandle!, names);
+  };
+
+  const finished = new Set<string>();
+  await runPool(tasks, concurrency, async task => {
+    started.push(task.id);
+    let written = 0;
+    try {
+      if (mode === 'rename' && task.planned.viaTemp) {
+        const tempName = `${task.originalName}.${crypto.randomUUID()}.tmp`;
+        const handle = await renameEntry(task.parentHandle!, task.handle, task.originalName, tempName, false, controller.signal);
+        staged.push({ task, handle, tempName });
+        markVacated(task);
+        return;
+      }
+      const result = await executeOperation(task, task.planned, mode, resolveTargetDir, controller.signal, bytes => {
+        written += bytes;
+        progress.doneBytes += bytes;
+      });
+      if (mode === 'rename' && result.changed) markVacated(task);
+      results.push({ id: task.id, outcome: 'success', result });
+      // Renombrados y ficheros que ya estaban en su sitio no pasan por el contador de bytes
+      progress.doneBytes += task.size - written;
+      progress.doneFiles++;
+    } catch (err: any) {
+      progress.doneBytes -= written;
+      if (controller.signal.aborted) results.push({ id: task.id, outcome: 'cancelled' });
+      else {
+        results.push({ id: task.id, outcome: 'error', error: err?.message ?? String(err), errorName: err?.name });
+        progress.doneFiles++;
+      }
+    } finally {
+      finished.add(task.id);
+    }
+  }, gate, controller.signal);
+
+  // Esta segunda fase no se cancela: un fichero no puede quedarse con el nombre temporal.
+  // El definitivo solo se toma si quien lo tenía se ha renombrado y ya no existe: si su
+  // renombrado falló o se canceló, este fichero vuelve a su nombre. Nunca se sobrescribe nada
+  for (const { task, handle, tempName } of staged) {
+    const dir = task.parentHandle!;
+    const { targetName } = task.planned;
+    try {
+      const free = !!vacated.get(dir)?.has(targetName.toLowerCase()) && !(await fileExists(dir, targetName));
+      if (free) {
+        const renamed = await renameEntry(dir, handle, tempName, targetName, false);
+        results.push({ id: task.id, outcome: 'success', result: { handle: renamed, targetDir: dir, changed: true } });
+      } else if (!(await fileExists(dir, task.originalName))) {
+        await renameEntry(dir, handle, tempName, task.originalName, false);
+        results.push({ id: task.id, outcome: 'error', error: `"${targetName}" no ha quedado libre; se conserva el nombre original` });
+      } else {
+        results.push({ id: task.id, outcome: 'error', error: `Ni "${targetName}" ni el nombre original están libres (se queda como "${tempName}")` });
+      }
+    } catch (err: any) {
+      results.push({ id: task.id, outcome: 'error', error: `${err?.message ?? String(err)} (se queda como "${tempName}")`, errorName: err?.name });
+    }
+    progress.doneBytes += task.size;
+    progress.doneFiles++;
+  }
+
+  tasks.filter(t => !finished.has(t.id)).forEach(t => results.push({ id: t.id, outcome: 'cancelled' }));
+  clearInterval(timer);
+  flush();
+  post({ type: 'batch-done', progress: snapshot() });
+};
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  try {
+    switch (request.type) {
+      case 'scan': return await scan(request.root, request.maxDepth, request.concurrency);
+      case 'batch': return await runBatch(request.tasks, request.mode, request.destRoot, request.concurrency);
+      case 'cancel':
+        controller.abort();
+        gate.resume();
+        return;
+      default:
+        controlHandler?.(request);
+    }
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message ?? String(err) });
+  }
+};
@@ -0,0 +1,51 @@
+import { BatchMode } from '../types';
+import { PlannedItem } from '../utils/batchPlanner';
+import { OperationResult } from '../utils/batchExecutor';
+
+// Mensajes entre la aplicación y el worker de ficheros (los handles se pueden enviar por postMessage)
+
+export interface ScannedEntry {
+  handle: FileSystemFileHandle;
+  parent: FileSystemDirectoryHandle;
+  relativePath: string;
+  name: string;
+  size: number;
+  lastModified: number;
+  type: string;
+}
+
+export interface BatchTask {
+  id: string;
+  handle: FileSystemFileHandle;
+  parentHandle?: FileSystemDirectoryHandle; // Falta en los ficheros sueltos arrastrados
+  originalName: string;
+  size: number;
+  planned: PlannedItem;
+}
+
+export interface TransferProgress {
+  doneFiles: number;
+  totalFiles: number;
+  doneBytes: number;
+  totalBytes: number;
+  elapsedMs: number; // Tiempo activo, sin contar las pausas
+  paused: boolean;
+}
+
+export type TaskOutcome = 'success' | 'error' | 'cancelled';
+
+export type WorkerRequest =
+  | { type: 'scan'; root: FileSystemDirectoryHandle; maxDepth: number; concurrency: number }
+  | { type: 'batch'; tasks: BatchTask[]; mode: BatchMode; destRoot: FileSystemDirectoryHandle | null; concurrency: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'cancel' };
+
+export type WorkerEvent =
+  | { type: 'scan-batch'; entries: ScannedEntry[] }
+  | { type: 'scan-done' }
+  | { type: 'started'; ids: string[] }
+  | { type: 'results'; results: { id: string; outcome: TaskOutcome; result?: OperationResult; error?: string; errorName?: string }[] }
+  | { type: 'progress'; progress: TransferProgress }
+  | { type: 'batch-done'; progress: TransferProgress }
+  | { type: 'error'; message: string };